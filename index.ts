@@ -3,7 +3,23 @@
 // Digital Ocean AI Proxy — Full Continue Support
 //
 
-import { writeFileSync } from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import {
+  chmodSync,
+  existsSync,
+  type FSWatcher,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  watch,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
 
 function getEnv(name: string, fallback: string): string {
   const v = process.env[name];
@@ -14,7 +30,21 @@ function getConfig() {
   return {
     inferenceUrl: getEnv("DO_INFERENCE_URL", "https://inference.do-ai.run"),
     apiKey: getEnv("DO_API_KEY", "your-digital-ocean-api-key"),
+    // comma-separated pool; DO_API_KEY alone is a pool of one
+    apiKeys: getEnv("DO_API_KEYS", "")
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean),
     port: Number(getEnv("PORT", "4005")),
+    timeouts: {
+      connectMs: Number(getEnv("DO_CONNECT_TIMEOUT_MS", "15000")),
+      firstByteMs: Number(getEnv("DO_FIRST_BYTE_TIMEOUT_MS", "180000")),
+      streamIdleMs: Number(getEnv("DO_STREAM_IDLE_TIMEOUT_MS", "90000")),
+    },
+    heartbeatIntervalMs: Number(getEnv("DO_HEARTBEAT_INTERVAL_MS", "15000")),
+    logLevel: getEnv("LOG_LEVEL", "info"),
+    logFormat: getEnv("LOG_FORMAT", "pretty"),
+    cassetteMode: getEnv("DO_CASSETTES", "off"),
   };
 }
 
@@ -33,12 +63,14 @@ const MODEL_MAPPING: Record<string, string> = {
   "claude-opus": "anthropic-claude-opus-4.6",
 };
 
-const ANTHROPIC_MODEL_PREFIXES = ["anthropic-"];
-
-function isAnthropicModel(model: string | undefined): boolean {
-  if (typeof model !== "string") return false;
-  return ANTHROPIC_MODEL_PREFIXES.some((p) => model.startsWith(p));
-}
+// Sibling models tried, in order, when a model keeps failing with a retryable
+// error before any response bytes were sent
+const MODEL_FALLBACK_CHAINS: Record<string, string[]> = {
+  "anthropic-claude-opus-4.6": ["anthropic-claude-4.5-sonnet"],
+  "anthropic-claude-4.5-sonnet": ["anthropic-claude-haiku-4.5"],
+  "openai-gpt-5.2-pro": ["openai-gpt-5.2"],
+  "openai-gpt-5.1-codex-max": ["openai-gpt-5.2"],
+};
 
 const FALLBACK_MODELS = [
   { id: "anthropic-claude-haiku-4.5", object: "model", owned_by: "anthropic" },
@@ -52,826 +84,7845 @@ const FALLBACK_MODELS = [
 ];
 
 // ══════════════════════════════════════════════════════════════════════════════
-// CONTENT HELPERS
+// CONFIGURATION FILE
 // ══════════════════════════════════════════════════════════════════════════════
 
-function ensureNonEmpty(s: any, fallback: string = "."): string {
-  if (typeof s === "string" && s.trim().length > 0) return s;
-  return fallback;
+const CONFIG_FILE_NAMES = [
+  "do-proxy.config.json",
+  "do-proxy.config.yaml",
+  "do-proxy.config.yml",
+];
+
+type RetryPolicy = {
+  retries: number;
+  baseDelayMs: number;
+  retryStatuses: number[];
+};
+
+type ModelOverride = {
+  timeouts?: Partial<UpstreamTimeouts>;
+  maxTokens?: number;
+  capabilities?: Partial<ModelCapabilities>;
+  fallbacks?: string[];
+};
+
+export type ProxySettings = {
+  modelMapping: Record<string, string>;
+  aliasRules: AliasRule[];
+  aliasRefreshMs: number;
+  fallbackModels: { id: string; object: string; owned_by: string }[];
+  retry: RetryPolicy;
+  timeouts: UpstreamTimeouts;
+  heartbeatIntervalMs: number;
+  // API key pool: selection strategy, and cooldown after a 429 that came
+  // without retry-after
+  keys: { selection: KeySelection; cooldownMs: number };
+  upstreams: Record<string, UpstreamConfig>;
+  // per upstream+model; failureThreshold 0 turns it off
+  circuitBreaker: {
+    failureThreshold: number;
+    openMs: number;
+    halfOpenProbes: number;
+  };
+  // opt-in on-disk cache for temperature-0 chat requests
+  cache: CachePolicy;
+  // local token accounting behind /stats
+  usage: { enabled: boolean; dbPath: string };
+  // per-client local keys (see CLIENT KEYS); `required` rejects keyless
+  // requests even while the store is empty
+  clients: { storePath: string; required: boolean };
+  // request/response files written when the upstream fails
+  debugCapture: CapturePolicy;
+  // record upstream exchanges to files, or serve them back offline
+  cassettes: CassettePolicy;
+  // replies of the fake DO server started by --mock-upstream
+  mockUpstream: { script: MockStep[]; chunkDelayMs: number };
+  pricing: Record<string, ModelPrice>;
+  budgets: BudgetPolicy;
+  // per-client and per-model request/token rates and concurrency
+  rateLimits: RateLimitPolicy;
+  defaults: { maxTokens: number; strippedFields: string[] };
+  // what to do with input a model cannot take (images, tools)
+  capabilityPolicy: "reject" | "downgrade";
+  models: Record<string, ModelOverride>;
+  logging: { level: LogLevel; format: LogFormat };
+};
+
+// Built-in values; env vars feed the ones that predate the config file
+function defaultSettings(): ProxySettings {
+  const env = getConfig();
+  return {
+    modelMapping: { ...MODEL_MAPPING },
+    aliasRules: [],
+    aliasRefreshMs: 10 * 60 * 1000,
+    fallbackModels: FALLBACK_MODELS.map((m) => ({ ...m })),
+    retry: {
+      retries: 2,
+      baseDelayMs: 500,
+      retryStatuses: [429, 500, 502, 503, 504],
+    },
+    timeouts: { ...env.timeouts },
+    heartbeatIntervalMs: env.heartbeatIntervalMs,
+    keys: { selection: "round-robin", cooldownMs: 30_000 },
+    upstreams: {},
+    circuitBreaker: { failureThreshold: 5, openMs: 30_000, halfOpenProbes: 1 },
+    cache: {
+      enabled: false,
+      dir: join(process.cwd(), ".cache", "responses"),
+      ttlMs: 24 * 60 * 60 * 1000,
+      maxEntries: 1000,
+      maxBytes: 100 * 1024 * 1024,
+    },
+    usage: {
+      enabled: true,
+      dbPath: join(process.cwd(), ".cache", "usage.sqlite"),
+    },
+    clients: {
+      storePath: join(process.cwd(), "do-proxy.clients.json"),
+      required: false,
+    },
+    debugCapture: {
+      enabled: true,
+      dir: join(tmpdir(), "do-proxy-debug"),
+      fileMode: 0o600,
+      maxFiles: 100,
+      maxBytes: 50 * 1024 * 1024,
+      successes: false,
+      redact: true,
+      redactPatterns: [],
+    },
+    cassettes: {
+      mode: CASSETTE_MODES.includes(env.cassetteMode as CassetteMode)
+        ? (env.cassetteMode as CassetteMode)
+        : "off",
+      dir: join(process.cwd(), "cassettes"),
+      match: [...DEFAULT_CASSETTE_MATCH],
+      replayTiming: true,
+    },
+    mockUpstream: { script: [], chunkDelayMs: 30 },
+    pricing: structuredClone(MODEL_PRICING),
+    budgets: { global: {}, clients: {}, action: "reject", downgrade: {} },
+    rateLimits: {
+      clients: {},
+      models: {},
+      queueTimeoutMs: 30_000,
+      maxQueue: 100,
+    },
+    defaults: { maxTokens: 8192, strippedFields: [...STRIPPED_FIELDS] },
+    capabilityPolicy: "reject",
+    models: defaultModelOverrides(),
+    logging: {
+      level: LOG_LEVELS.includes(env.logLevel as LogLevel)
+        ? (env.logLevel as LogLevel)
+        : "info",
+      format: env.logFormat === "json" ? "json" : "pretty",
+    },
+  };
 }
 
-function toNonEmptyString(content: any, fallback: string = "."): string {
-  if (typeof content === "string") {
-    return content.trim().length > 0 ? content : fallback;
+function defaultModelOverrides(): Record<string, ModelOverride> {
+  const models: Record<string, ModelOverride> = {};
+  for (const [id, timeouts] of Object.entries(MODEL_TIMEOUTS)) {
+    models[id] = { timeouts: { ...timeouts } };
   }
-  if (content == null) return fallback;
-  if (Array.isArray(content)) {
-    const text = content
-      .map((b: any) => {
-        if (typeof b === "string") return b;
-        if (b?.type === "text" && typeof b.text === "string") return b.text;
-        return "";
-      })
-      .join("")
-      .trim();
-    return text.length > 0 ? text : fallback;
+  for (const [id, chain] of Object.entries(MODEL_FALLBACK_CHAINS)) {
+    (models[id] ??= {}).fallbacks = [...chain];
   }
-  const str = String(content).trim();
-  return str.length > 0 ? str : fallback;
+  return models;
 }
 
-function convertImageBlock(block: any): any {
-  if (!block || block.type !== "image_url") return null;
+let currentSettings: ProxySettings | null = null;
 
-  const imageUrl = block.image_url;
-  const url: string =
-    typeof imageUrl === "string"
-      ? imageUrl
-      : typeof imageUrl?.url === "string"
-        ? imageUrl.url
-        : "";
+function getProxySettings(): ProxySettings {
+  return (currentSettings ??= defaultSettings());
+}
 
-  if (!url) return null;
+function isPlainObject(v: unknown): v is Record<string, any> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
 
-  if (
-    url.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,/s) ||
-    url.startsWith("http://") ||
-    url.startsWith("https://")
-  ) {
-    return { type: "image_url", image_url: { url } };
+function checkKeys(
+  obj: Record<string, any>,
+  allowed: string[],
+  path: string,
+  errors: string[],
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${path ? `${path}.` : ""}${key}: unknown key (expected one of ${allowed.join(", ")})`,
+      );
+    }
   }
+}
 
-  return null;
+function checkInt(
+  v: unknown,
+  path: string,
+  errors: string[],
+  min: number = 0,
+): v is number {
+  if (typeof v === "number" && Number.isInteger(v) && v >= min) return true;
+  errors.push(
+    `${path}: expected an integer >= ${min}, got ${JSON.stringify(v)}`,
+  );
+  return false;
 }
 
-function processUserContent(content: any): string | any[] {
-  if (typeof content === "string") {
-    return ensureNonEmpty(content);
-  }
+function checkNumber(v: unknown, path: string, errors: string[]): v is number {
+  if (typeof v === "number" && Number.isFinite(v) && v >= 0) return true;
+  errors.push(`${path}: expected a number >= 0, got ${JSON.stringify(v)}`);
+  return false;
+}
 
-  if (!Array.isArray(content)) {
-    return ensureNonEmpty(toNonEmptyString(content));
+function validateBudgetLimit(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): BudgetLimit {
+  const out: BudgetLimit = {};
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected { dailyUsd, monthlyUsd }`);
+    return out;
   }
-
-  const blocks: any[] = [];
-  let hasImage = false;
-  const textParts: string[] = [];
-
-  for (const block of content) {
-    if (typeof block === "string") {
-      if (block.trim().length > 0) textParts.push(block.trim());
-      continue;
+  checkKeys(raw, ["dailyUsd", "monthlyUsd"], path, errors);
+  for (const key of ["dailyUsd", "monthlyUsd"] as const) {
+    if (
+      raw[key] !== undefined &&
+      checkNumber(raw[key], `${path}.${key}`, errors)
+    ) {
+      out[key] = raw[key];
     }
+  }
+  return out;
+}
 
-    if (!block || typeof block !== "object") continue;
-
-    if (block.type === "text") {
-      if (typeof block.text === "string" && block.text.trim().length > 0) {
-        textParts.push(block.text.trim());
-      }
+function validateRateLimits(
+  raw: unknown,
+  limits: RateLimitPolicy,
+  errors: string[],
+): void {
+  if (!isPlainObject(raw)) {
+    errors.push("rateLimits: expected an object");
+    return;
+  }
+  checkKeys(
+    raw,
+    ["clients", "models", "queueTimeoutMs", "maxQueue"],
+    "rateLimits",
+    errors,
+  );
+  for (const scope of ["clients", "models"] as const) {
+    if (raw[scope] === undefined) continue;
+    if (!isPlainObject(raw[scope])) {
+      errors.push(`rateLimits.${scope}: expected an object of id → limits`);
       continue;
     }
-
-    if (block.type === "image_url") {
-      const converted = convertImageBlock(block);
-      if (converted) {
-        hasImage = true;
-        blocks.push(converted);
+    for (const [id, rule] of Object.entries(raw[scope])) {
+      const path = `rateLimits.${scope}.${id}`;
+      if (!isPlainObject(rule)) {
+        errors.push(
+          `${path}: expected { requestsPerMinute, tokensPerMinute, maxConcurrent }`,
+        );
+        continue;
       }
-      continue;
-    }
-
-    if (block.type === "image") {
-      hasImage = true;
-      blocks.push(block);
-      continue;
+      checkKeys(rule, [...RATE_LIMIT_FIELDS], path, errors);
+      const out: RateLimitRule = {};
+      for (const field of RATE_LIMIT_FIELDS) {
+        if (
+          rule[field] !== undefined &&
+          checkInt(rule[field], `${path}.${field}`, errors, 1)
+        ) {
+          out[field] = rule[field];
+        }
+      }
+      limits[scope][id] = out;
     }
-
-    if (block.type === "tool_result" || block.type === "tool_use") continue;
   }
-
-  if (!hasImage) {
-    const text = textParts.join("\n").trim();
-    return text.length > 0 ? text : ".";
+  if (
+    raw.queueTimeoutMs !== undefined &&
+    checkInt(raw.queueTimeoutMs, "rateLimits.queueTimeoutMs", errors)
+  ) {
+    limits.queueTimeoutMs = raw.queueTimeoutMs;
+  }
+  if (
+    raw.maxQueue !== undefined &&
+    checkInt(raw.maxQueue, "rateLimits.maxQueue", errors)
+  ) {
+    limits.maxQueue = raw.maxQueue;
   }
-
-  const result: any[] = [];
-  const text = textParts.join("\n").trim();
-  result.push({
-    type: "text",
-    text: text.length > 0 ? text : "See attached image:",
-  });
-  for (const block of blocks) result.push(block);
-  return result;
 }
 
-function processAssistantContent(content: any): string {
-  // DO requires assistant content to be a plain non-empty string
-  if (typeof content === "string") {
-    return content.trim().length > 0 ? content : "...";
+function validateBudgets(
+  raw: unknown,
+  budgets: BudgetPolicy,
+  errors: string[],
+): void {
+  if (!isPlainObject(raw)) {
+    errors.push("budgets: expected an object");
+    return;
   }
-  if (content == null) return "...";
-
-  if (Array.isArray(content)) {
-    // Extract only text, skip tool_use blocks
-    const textParts: string[] = [];
-    for (const block of content) {
-      if (typeof block === "string" && block.trim().length > 0) {
-        textParts.push(block);
-      } else if (
-        block?.type === "text" &&
-        typeof block.text === "string" &&
-        block.text.trim().length > 0
-      ) {
-        textParts.push(block.text);
+  checkKeys(
+    raw,
+    ["global", "clients", "action", "downgrade"],
+    "budgets",
+    errors,
+  );
+  if (raw.global !== undefined) {
+    budgets.global = validateBudgetLimit(raw.global, "budgets.global", errors);
+  }
+  if (raw.clients !== undefined) {
+    if (!isPlainObject(raw.clients)) {
+      errors.push("budgets.clients: expected an object keyed by client id");
+    } else {
+      for (const [client, limit] of Object.entries(raw.clients)) {
+        budgets.clients[client] = validateBudgetLimit(
+          limit,
+          `budgets.clients.${client}`,
+          errors,
+        );
       }
     }
-    const joined = textParts.join("\n").trim();
-    return joined.length > 0 ? joined : "...";
   }
-
-  const str = String(content).trim();
-  return str.length > 0 ? str : "...";
+  if (raw.action !== undefined) {
+    if (raw.action !== "reject" && raw.action !== "downgrade") {
+      errors.push('budgets.action: expected "reject" or "downgrade"');
+    } else {
+      budgets.action = raw.action;
+    }
+  }
+  if (raw.downgrade !== undefined) {
+    if (
+      !isPlainObject(raw.downgrade) ||
+      Object.values(raw.downgrade).some((m) => typeof m !== "string" || !m)
+    ) {
+      errors.push(
+        "budgets.downgrade: expected an object of model → cheaper model",
+      );
+    } else {
+      budgets.downgrade = { ...raw.downgrade };
+    }
+  }
 }
 
-function processToolContent(content: any): string {
-  if (typeof content === "string" && content.trim().length > 0) return content;
-  if (content == null) return "(empty output)";
-  if (typeof content === "object") {
-    try {
-      const json = JSON.stringify(content);
-      return json.length > 2 ? json : "(empty output)";
-    } catch {
-      return "(serialization error)";
+function validateTimeouts(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): Partial<UpstreamTimeouts> {
+  const out: Partial<UpstreamTimeouts> = {};
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return out;
+  }
+  const keys = ["connectMs", "firstByteMs", "streamIdleMs"] as const;
+  checkKeys(raw, [...keys], path, errors);
+  for (const key of keys) {
+    if (
+      raw[key] !== undefined &&
+      checkInt(raw[key], `${path}.${key}`, errors)
+    ) {
+      out[key] = raw[key];
     }
   }
-  const str = String(content).trim();
-  return str.length > 0 ? str : "(empty output)";
+  return out;
 }
 
-function normalizeToolCalls(toolCalls: any[]): any[] {
-  if (!Array.isArray(toolCalls)) return [];
-
-  return toolCalls
-    .filter((tc) => tc && typeof tc === "object")
-    .map((tc) => {
-      const id =
-        typeof tc.id === "string" && tc.id.length > 0
-          ? tc.id
-          : `tc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-
-      const name = tc.function?.name || tc.name || "unknown_tool";
-
-      let args = tc.function?.arguments ?? tc.arguments ?? "{}";
-      if (typeof args === "object" && args !== null) {
-        try {
-          args = JSON.stringify(args);
-        } catch {
-          args = "{}";
-        }
-      }
-      if (typeof args !== "string" || args.trim().length === 0) args = "{}";
-      try {
-        JSON.parse(args);
-      } catch {
-        args = JSON.stringify({ raw: args });
-      }
-
-      return { id, type: "function", function: { name, arguments: args } };
-    });
+function isStringArray(v: unknown): v is string[] {
+  return (
+    Array.isArray(v) &&
+    v.every((s) => typeof s === "string" && s.trim().length > 0)
+  );
 }
 
-// ══════════════════════════════════════════════════════════════════════════════
-// MESSAGE NORMALISATION
-// ══════════════════════════════════════════════════════════════════════════════
-
-function normalizeChatCompletionsMessages(body: any): { changed: boolean } {
-  if (!body || !Array.isArray(body.messages)) return { changed: false };
-
-  let changed = false;
-  const input: any[] = body.messages;
-
-  // STEP 1: Separate system messages
-  const systemMsgs: any[] = [];
-  const nonSystemMsgs: any[] = [];
+function validateUpstream(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): UpstreamConfig | null {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+  checkKeys(
+    raw,
+    [
+      "baseUrl",
+      "apiKey",
+      "apiKeyEnv",
+      "adapter",
+      "prefixes",
+      "models",
+      "stripPrefix",
+    ],
+    path,
+    errors,
+  );
+  const before = errors.length;
 
-  for (const m of input) {
-    if (!m || typeof m !== "object") continue;
-    if (m.role === "system") {
-      systemMsgs.push({ role: "system", content: ensureNonEmpty(m.content) });
-    } else {
-      nonSystemMsgs.push(m);
+  if (typeof raw.baseUrl !== "string" || !/^https?:\/\//.test(raw.baseUrl)) {
+    errors.push(`${path}.baseUrl: expected an http(s) URL`);
+  }
+  for (const key of ["apiKey", "apiKeyEnv"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") {
+      errors.push(`${path}.${key}: expected a string`);
+    }
+  }
+  if (
+    raw.adapter !== undefined &&
+    !["anthropic", "openai", "oss"].includes(raw.adapter)
+  ) {
+    errors.push(`${path}.adapter: expected "anthropic", "openai" or "oss"`);
+  }
+  for (const key of ["prefixes", "models"]) {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) {
+      errors.push(`${path}.${key}: expected an array of strings`);
     }
   }
+  if (raw.stripPrefix !== undefined && typeof raw.stripPrefix !== "boolean") {
+    errors.push(`${path}.stripPrefix: expected true or false`);
+  }
+  if (errors.length > before) return null;
 
-  // STEP 2: Index all tool results
-  const toolResultsById = new Map<string, string>();
+  return {
+    baseUrl: raw.baseUrl.replace(/\/+$/, ""),
+    apiKey: raw.apiKey,
+    apiKeyEnv: raw.apiKeyEnv,
+    adapter: raw.adapter,
+    prefixes: raw.prefixes ?? [],
+    models: raw.models ?? [],
+    stripPrefix: raw.stripPrefix ?? false,
+  };
+}
 
-  for (const m of nonSystemMsgs) {
+function validateCapabilities(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): Partial<ModelCapabilities> {
+  const out: Partial<ModelCapabilities> = {};
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return out;
+  }
+  const numbers = ["contextWindow", "maxOutputTokens"] as const;
+  const flags = ["vision", "tools", "reasoning", "streaming"] as const;
+  checkKeys(raw, [...numbers, ...flags], path, errors);
+  for (const key of numbers) {
     if (
-      m.role === "tool" &&
-      typeof m.tool_call_id === "string" &&
-      m.tool_call_id.length > 0
+      raw[key] !== undefined &&
+      checkInt(raw[key], `${path}.${key}`, errors, 1)
     ) {
-      toolResultsById.set(m.tool_call_id, processToolContent(m.content));
+      out[key] = raw[key];
     }
   }
-
-  // STEP 3: Build normalized sequence
-  const normalized: any[] = [];
-  const usedToolIds = new Set<string>();
-
-  for (const m of nonSystemMsgs) {
-    if (m.role === "tool") continue;
-
-    if (m.role === "user") {
-      const content = processUserContent(m.content);
-      normalized.push({ role: "user", content });
-      continue;
+  for (const key of flags) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "boolean") {
+      errors.push(`${path}.${key}: expected true or false`);
+    } else {
+      out[key] = raw[key];
     }
+  }
+  return out;
+}
 
-    if (m.role === "assistant") {
-      const toolCalls = normalizeToolCalls(m.tool_calls);
-
-      // Get text content - ALWAYS non-empty
-      let content = processAssistantContent(m.content);
+function validateDebugCapture(
+  raw: unknown,
+  capture: CapturePolicy,
+  errors: string[],
+): void {
+  if (!isPlainObject(raw)) {
+    errors.push("debugCapture: expected an object");
+    return;
+  }
+  const limits = ["maxFiles", "maxBytes"] as const;
+  const flags = ["enabled", "successes", "redact"] as const;
+  checkKeys(
+    raw,
+    [...flags, ...limits, "dir", "fileMode", "redactPatterns"],
+    "debugCapture",
+    errors,
+  );
+  for (const key of flags) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "boolean") {
+      errors.push(`debugCapture.${key}: expected true or false`);
+    } else {
+      capture[key] = raw[key];
+    }
+  }
+  for (const key of limits) {
+    const v = raw[key];
+    if (v !== undefined && checkInt(v, `debugCapture.${key}`, errors, 1)) {
+      capture[key] = v;
+    }
+  }
+  if (raw.dir !== undefined) {
+    if (typeof raw.dir !== "string" || raw.dir.length === 0) {
+      errors.push("debugCapture.dir: expected a directory path");
+    } else {
+      capture.dir = raw.dir;
+    }
+  }
+  if (raw.fileMode !== undefined) {
+    // an octal string like "0600"; YAML would read a bare 0600 as decimal
+    if (
+      typeof raw.fileMode !== "string" ||
+      !/^0?[0-7]{3}$/.test(raw.fileMode)
+    ) {
+      errors.push(
+        'debugCapture.fileMode: expected an octal string like "0600"',
+      );
+    } else {
+      capture.fileMode = parseInt(raw.fileMode, 8);
+    }
+  }
+  if (raw.redactPatterns !== undefined) {
+    if (!Array.isArray(raw.redactPatterns)) {
+      errors.push("debugCapture.redactPatterns: expected a list of regexes");
+    } else {
+      raw.redactPatterns.forEach((pattern, i) => {
+        const path = `debugCapture.redactPatterns[${i}]`;
+        if (typeof pattern !== "string") {
+          errors.push(`${path}: expected a regex string`);
+          return;
+        }
+        try {
+          new RegExp(pattern);
+          capture.redactPatterns.push(pattern);
+        } catch (e) {
+          errors.push(`${path}: invalid pattern (${(e as Error).message})`);
+        }
+      });
+    }
+  }
+}
 
-      const assistantMsg: any = { role: "assistant", content };
+function validateCassettes(
+  raw: unknown,
+  cassettes: CassettePolicy,
+  errors: string[],
+): void {
+  if (!isPlainObject(raw)) {
+    errors.push("cassettes: expected an object");
+    return;
+  }
+  checkKeys(raw, ["mode", "dir", "match", "replayTiming"], "cassettes", errors);
+  if (raw.mode !== undefined) {
+    if (!CASSETTE_MODES.includes(raw.mode as CassetteMode)) {
+      errors.push(
+        `cassettes.mode: expected one of ${CASSETTE_MODES.join(", ")}`,
+      );
+    } else {
+      cassettes.mode = raw.mode as CassetteMode;
+    }
+  }
+  if (raw.dir !== undefined) {
+    if (typeof raw.dir !== "string" || raw.dir.length === 0) {
+      errors.push("cassettes.dir: expected a directory path");
+    } else {
+      cassettes.dir = raw.dir;
+    }
+  }
+  if (raw.match !== undefined) {
+    if (
+      !Array.isArray(raw.match) ||
+      raw.match.length === 0 ||
+      raw.match.some((f) => !CASSETTE_MATCH_FIELDS.includes(f))
+    ) {
+      errors.push(
+        `cassettes.match: expected a non-empty list of ${CASSETTE_MATCH_FIELDS.join(", ")}`,
+      );
+    } else {
+      cassettes.match = raw.match;
+    }
+  }
+  if (raw.replayTiming !== undefined) {
+    if (typeof raw.replayTiming !== "boolean") {
+      errors.push("cassettes.replayTiming: expected true or false");
+    } else {
+      cassettes.replayTiming = raw.replayTiming;
+    }
+  }
+}
 
-      if (toolCalls.length > 0) {
-        assistantMsg.tool_calls = toolCalls;
+function validateMockStep(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): MockStep | null {
+  if (
+    !isPlainObject(raw) ||
+    typeof raw.type !== "string" ||
+    !(MOCK_STEP_TYPES as readonly string[]).includes(raw.type)
+  ) {
+    errors.push(`${path}: expected { type: ${MOCK_STEP_TYPES.join(" | ")} }`);
+    return null;
+  }
+  const before = errors.length;
+  switch (raw.type) {
+    case "echo":
+    case "timeout":
+      checkKeys(raw, ["type"], path, errors);
+      return errors.length === before ? { type: raw.type } : null;
+    case "text":
+      checkKeys(raw, ["type", "text"], path, errors);
+      if (typeof raw.text !== "string") {
+        errors.push(`${path}.text: expected a string`);
+        return null;
+      }
+      return errors.length === before ? { type: "text", text: raw.text } : null;
+    case "tool_call":
+      checkKeys(raw, ["type", "name", "arguments"], path, errors);
+      if (typeof raw.name !== "string" || !raw.name) {
+        errors.push(`${path}.name: expected a tool name`);
+        return null;
+      }
+      if (raw.arguments !== undefined && !isPlainObject(raw.arguments)) {
+        errors.push(`${path}.arguments: expected an object`);
+        return null;
+      }
+      return errors.length === before
+        ? { type: "tool_call", name: raw.name, arguments: raw.arguments }
+        : null;
+    default:
+      checkKeys(raw, ["type", "status", "retryAfter"], path, errors);
+      if (!checkInt(raw.status, `${path}.status`, errors, 400)) return null;
+      if (
+        raw.retryAfter !== undefined &&
+        !checkInt(raw.retryAfter, `${path}.retryAfter`, errors)
+      ) {
+        return null;
       }
+      return errors.length === before
+        ? {
+            type: "error",
+            status: raw.status,
+            retryAfter: raw.retryAfter as number | undefined,
+          }
+        : null;
+  }
+}
 
-      normalized.push(assistantMsg);
+// Validates a parsed config file and merges it over the built-in settings.
+// Every problem is reported with its path so a bad file can be fixed in one go.
+export function validateProxyConfig(raw: unknown): {
+  settings: ProxySettings | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const settings = defaultSettings();
 
-      // Place tool results immediately after
-      if (toolCalls.length > 0) {
-        for (const tc of toolCalls) {
-          usedToolIds.add(tc.id);
-          const result = toolResultsById.get(tc.id);
+  if (raw == null) return { settings, errors };
+  if (!isPlainObject(raw)) {
+    return { settings: null, errors: ["(root): expected an object"] };
+  }
 
-          normalized.push({
-            role: "tool",
-            tool_call_id: tc.id,
-            content: result ?? "(tool was not executed or result was lost)",
-          });
+  checkKeys(
+    raw,
+    [
+      "modelMapping",
+      "aliasRules",
+      "aliasRefreshMs",
+      "fallbackModels",
+      "retry",
+      "timeouts",
+      "heartbeatIntervalMs",
+      "keys",
+      "upstreams",
+      "circuitBreaker",
+      "cache",
+      "usage",
+      "clients",
+      "debugCapture",
+      "cassettes",
+      "mockUpstream",
+      "pricing",
+      "budgets",
+      "rateLimits",
+      "defaults",
+      "capabilityPolicy",
+      "models",
+      "logging",
+    ],
+    "",
+    errors,
+  );
 
-          if (!result) {
-            console.warn(
-              `⚠️  Synthetic result for ${tc.id} (${tc.function.name})`,
-            );
-            changed = true;
-          }
+  if (raw.modelMapping !== undefined) {
+    if (!isPlainObject(raw.modelMapping)) {
+      errors.push("modelMapping: expected an object of alias → model id");
+    } else {
+      for (const [alias, target] of Object.entries(raw.modelMapping)) {
+        if (typeof target !== "string" || target.trim().length === 0) {
+          errors.push(`modelMapping.${alias}: expected a non-empty model id`);
+        } else {
+          settings.modelMapping[alias] = target;
         }
       }
+    }
+  }
 
-      continue;
+  if (raw.aliasRules !== undefined) {
+    if (!Array.isArray(raw.aliasRules)) {
+      errors.push("aliasRules: expected an array of { alias, target }");
+    } else {
+      raw.aliasRules.forEach((rule: unknown, i: number) => {
+        const path = `aliasRules[${i}]`;
+        if (
+          !isPlainObject(rule) ||
+          typeof rule.alias !== "string" ||
+          typeof rule.target !== "string"
+        ) {
+          errors.push(`${path}: expected { alias, target } strings`);
+          return;
+        }
+        checkKeys(rule, ["alias", "target"], path, errors);
+        for (const key of ["alias", "target"] as const) {
+          try {
+            compileModelPattern(rule[key]);
+          } catch (e) {
+            errors.push(
+              `${path}.${key}: invalid pattern (${(e as Error).message})`,
+            );
+          }
+        }
+        settings.aliasRules.push({ alias: rule.alias, target: rule.target });
+      });
     }
+  }
 
-    console.warn(`⚠️  Skipping unknown role: ${m.role}`);
-    changed = true;
+  if (
+    raw.aliasRefreshMs !== undefined &&
+    checkInt(raw.aliasRefreshMs, "aliasRefreshMs", errors, 1000)
+  ) {
+    settings.aliasRefreshMs = raw.aliasRefreshMs;
   }
 
-  // STEP 4: Orphan tool results
-  for (const [id, content] of toolResultsById) {
-    if (!usedToolIds.has(id)) {
-      console.warn(`⚠️  Orphan tool result ${id} → user message`);
-      normalized.push({
-        role: "user",
-        content: `[Previous tool output for ${id}]:\n${content}`,
+  if (raw.fallbackModels !== undefined) {
+    if (!Array.isArray(raw.fallbackModels)) {
+      errors.push("fallbackModels: expected an array");
+    } else {
+      settings.fallbackModels = [];
+      raw.fallbackModels.forEach((m: unknown, i: number) => {
+        const path = `fallbackModels[${i}]`;
+        const entry = typeof m === "string" ? { id: m } : m;
+        if (!isPlainObject(entry) || typeof entry.id !== "string") {
+          errors.push(`${path}: expected a model id or { id, owned_by }`);
+          return;
+        }
+        checkKeys(entry, ["id", "owned_by", "object"], path, errors);
+        settings.fallbackModels.push({
+          id: entry.id,
+          object: "model",
+          owned_by:
+            typeof entry.owned_by === "string"
+              ? entry.owned_by
+              : "digitalocean",
+        });
       });
-      changed = true;
     }
   }
 
-  // STEP 5: Fix alternation
-  const alternated: any[] = [];
+  if (raw.retry !== undefined) {
+    if (!isPlainObject(raw.retry)) {
+      errors.push("retry: expected an object");
+    } else {
+      checkKeys(
+        raw.retry,
+        ["retries", "baseDelayMs", "retryStatuses"],
+        "retry",
+        errors,
+      );
+      if (
+        raw.retry.retries !== undefined &&
+        checkInt(raw.retry.retries, "retry.retries", errors)
+      ) {
+        settings.retry.retries = raw.retry.retries;
+      }
+      if (
+        raw.retry.baseDelayMs !== undefined &&
+        checkInt(raw.retry.baseDelayMs, "retry.baseDelayMs", errors)
+      ) {
+        settings.retry.baseDelayMs = raw.retry.baseDelayMs;
+      }
+      if (raw.retry.retryStatuses !== undefined) {
+        const statuses = raw.retry.retryStatuses;
+        if (
+          !Array.isArray(statuses) ||
+          !statuses.every(
+            (s: unknown) =>
+              typeof s === "number" &&
+              Number.isInteger(s) &&
+              s >= 100 &&
+              s <= 599,
+          )
+        ) {
+          errors.push(
+            "retry.retryStatuses: expected an array of HTTP status codes",
+          );
+        } else {
+          settings.retry.retryStatuses = statuses;
+        }
+      }
+    }
+  }
 
-  function isUserSide(role: string): boolean {
-    return role === "user" || role === "tool";
+  if (raw.timeouts !== undefined) {
+    Object.assign(
+      settings.timeouts,
+      validateTimeouts(raw.timeouts, "timeouts", errors),
+    );
   }
 
-  for (let i = 0; i < normalized.length; i++) {
-    const m = normalized[i];
+  if (
+    raw.heartbeatIntervalMs !== undefined &&
+    checkInt(raw.heartbeatIntervalMs, "heartbeatIntervalMs", errors)
+  ) {
+    settings.heartbeatIntervalMs = raw.heartbeatIntervalMs;
+  }
 
-    if (alternated.length === 0) {
-      alternated.push(m);
-      continue;
+  if (raw.keys !== undefined) {
+    if (!isPlainObject(raw.keys)) {
+      errors.push("keys: expected an object");
+    } else {
+      checkKeys(raw.keys, ["selection", "cooldownMs"], "keys", errors);
+      if (raw.keys.selection !== undefined) {
+        if (
+          raw.keys.selection !== "round-robin" &&
+          raw.keys.selection !== "least-throttled"
+        ) {
+          errors.push(
+            'keys.selection: expected "round-robin" or "least-throttled"',
+          );
+        } else {
+          settings.keys.selection = raw.keys.selection;
+        }
+      }
+      if (
+        raw.keys.cooldownMs !== undefined &&
+        checkInt(raw.keys.cooldownMs, "keys.cooldownMs", errors)
+      ) {
+        settings.keys.cooldownMs = raw.keys.cooldownMs;
+      }
     }
+  }
 
-    const prev = alternated[alternated.length - 1];
+  if (raw.upstreams !== undefined) {
+    if (!isPlainObject(raw.upstreams)) {
+      errors.push("upstreams: expected an object keyed by upstream name");
+    } else {
+      for (const [name, upstream] of Object.entries(raw.upstreams)) {
+        const parsed = validateUpstream(upstream, `upstreams.${name}`, errors);
+        if (name === DEFAULT_UPSTREAM) {
+          errors.push(
+            `upstreams.${name}: reserved for DO_INFERENCE_URL; pick another name`,
+          );
+        } else if (parsed) {
+          settings.upstreams[name] = parsed;
+        }
+      }
+    }
+  }
 
-    // tool after assistant with tool_calls = OK
-    if (
-      m.role === "tool" &&
-      prev.role === "assistant" &&
-      Array.isArray(prev.tool_calls)
-    ) {
-      alternated.push(m);
-      continue;
+  if (raw.circuitBreaker !== undefined) {
+    if (!isPlainObject(raw.circuitBreaker)) {
+      errors.push("circuitBreaker: expected an object");
+    } else {
+      const fields = ["failureThreshold", "openMs", "halfOpenProbes"] as const;
+      checkKeys(raw.circuitBreaker, [...fields], "circuitBreaker", errors);
+      for (const key of fields) {
+        const v = raw.circuitBreaker[key];
+        const min = key === "halfOpenProbes" ? 1 : 0;
+        if (
+          v !== undefined &&
+          checkInt(v, `circuitBreaker.${key}`, errors, min)
+        ) {
+          settings.circuitBreaker[key] = v;
+        }
+      }
     }
+  }
 
-    // tool after tool = OK
-    if (m.role === "tool" && prev.role === "tool") {
-      alternated.push(m);
-      continue;
+  if (raw.cache !== undefined) {
+    if (!isPlainObject(raw.cache)) {
+      errors.push("cache: expected an object");
+    } else {
+      const limits = ["ttlMs", "maxEntries", "maxBytes"] as const;
+      checkKeys(raw.cache, ["enabled", "dir", ...limits], "cache", errors);
+      if (raw.cache.enabled !== undefined) {
+        if (typeof raw.cache.enabled !== "boolean") {
+          errors.push("cache.enabled: expected true or false");
+        } else {
+          settings.cache.enabled = raw.cache.enabled;
+        }
+      }
+      if (raw.cache.dir !== undefined) {
+        if (typeof raw.cache.dir !== "string" || raw.cache.dir.length === 0) {
+          errors.push("cache.dir: expected a directory path");
+        } else {
+          settings.cache.dir = raw.cache.dir;
+        }
+      }
+      for (const key of limits) {
+        const v = raw.cache[key];
+        if (v !== undefined && checkInt(v, `cache.${key}`, errors, 1)) {
+          settings.cache[key] = v;
+        }
+      }
     }
+  }
 
-    const prevUserSide = isUserSide(prev.role);
-    const currUserSide = isUserSide(m.role);
+  if (raw.usage !== undefined) {
+    if (!isPlainObject(raw.usage)) {
+      errors.push("usage: expected an object");
+    } else {
+      checkKeys(raw.usage, ["enabled", "dbPath"], "usage", errors);
+      if (raw.usage.enabled !== undefined) {
+        if (typeof raw.usage.enabled !== "boolean") {
+          errors.push("usage.enabled: expected true or false");
+        } else {
+          settings.usage.enabled = raw.usage.enabled;
+        }
+      }
+      if (raw.usage.dbPath !== undefined) {
+        if (typeof raw.usage.dbPath !== "string" || !raw.usage.dbPath) {
+          errors.push("usage.dbPath: expected a file path");
+        } else {
+          settings.usage.dbPath = raw.usage.dbPath;
+        }
+      }
+    }
+  }
 
-    if (prevUserSide === currUserSide) {
-      if (prevUserSide) {
+  if (raw.clients !== undefined) {
+    if (!isPlainObject(raw.clients)) {
+      errors.push("clients: expected an object");
+    } else {
+      checkKeys(raw.clients, ["storePath", "required"], "clients", errors);
+      if (raw.clients.storePath !== undefined) {
         if (
-          typeof prev.content === "string" &&
-          typeof m.content === "string" &&
-          prev.role === "user" &&
-          m.role === "user"
+          typeof raw.clients.storePath !== "string" ||
+          !raw.clients.storePath
         ) {
-          prev.content = prev.content + "\n\n" + m.content;
-          changed = true;
-          continue;
+          errors.push("clients.storePath: expected a file path");
+        } else {
+          settings.clients.storePath = raw.clients.storePath;
         }
-        alternated.push({ role: "assistant", content: "Understood." });
-        changed = true;
-      } else {
-        if (
-          typeof prev.content === "string" &&
-          typeof m.content === "string" &&
-          !prev.tool_calls &&
-          !m.tool_calls
-        ) {
-          prev.content = prev.content + "\n\n" + m.content;
-          changed = true;
-          continue;
+      }
+      if (raw.clients.required !== undefined) {
+        if (typeof raw.clients.required !== "boolean") {
+          errors.push("clients.required: expected true or false");
+        } else {
+          settings.clients.required = raw.clients.required;
         }
-        alternated.push({ role: "user", content: "Continue." });
-        changed = true;
       }
     }
+  }
 
-    alternated.push(m);
+  if (raw.debugCapture !== undefined) {
+    validateDebugCapture(raw.debugCapture, settings.debugCapture, errors);
   }
 
-  // STEP 6: First message must be user
-  if (alternated.length > 0 && !isUserSide(alternated[0].role)) {
-    alternated.unshift({ role: "user", content: "Begin." });
-    changed = true;
+  if (raw.cassettes !== undefined) {
+    validateCassettes(raw.cassettes, settings.cassettes, errors);
   }
 
-  // ════════════════════════════════════════════════════════════════════════
-  // STEP 7: FINAL SWEEP — absolutely guarantee no empty content anywhere
-  //
-  // This is the LAST LINE OF DEFENCE. Every single message gets checked.
-  // ════════════════════════════════════════════════════════════════════════
-  for (const m of alternated) {
-    // -- SYSTEM --
-    if (m.role === "system") {
-      if (typeof m.content !== "string") {
-        m.content = toNonEmptyString(m.content, "You are a helpful assistant.");
-        changed = true;
-      } else if (m.content.trim().length === 0) {
-        m.content = "You are a helpful assistant.";
-        changed = true;
+  if (raw.mockUpstream !== undefined) {
+    if (!isPlainObject(raw.mockUpstream)) {
+      errors.push("mockUpstream: expected { script, chunkDelayMs }");
+    } else {
+      const mock = raw.mockUpstream;
+      checkKeys(mock, ["script", "chunkDelayMs"], "mockUpstream", errors);
+      if (
+        mock.chunkDelayMs !== undefined &&
+        checkInt(mock.chunkDelayMs, "mockUpstream.chunkDelayMs", errors)
+      ) {
+        settings.mockUpstream.chunkDelayMs = mock.chunkDelayMs;
+      }
+      if (mock.script !== undefined) {
+        if (!Array.isArray(mock.script)) {
+          errors.push("mockUpstream.script: expected a list of steps");
+        } else {
+          mock.script.forEach((step, i) => {
+            const parsed = validateMockStep(
+              step,
+              `mockUpstream.script[${i}]`,
+              errors,
+            );
+            if (parsed) settings.mockUpstream.script.push(parsed);
+          });
+        }
       }
-      continue;
     }
+  }
 
-    // -- USER --
-    if (m.role === "user") {
-      if (typeof m.content === "string") {
-        if (m.content.trim().length === 0) {
-          m.content = ".";
-          changed = true;
+  if (raw.pricing !== undefined) {
+    if (!isPlainObject(raw.pricing)) {
+      errors.push("pricing: expected an object keyed by model id");
+    } else {
+      for (const [model, price] of Object.entries(raw.pricing)) {
+        const path = `pricing.${model}`;
+        if (!isPlainObject(price)) {
+          errors.push(`${path}: expected { inputPerMTok, outputPerMTok }`);
+          continue;
         }
-      } else if (Array.isArray(m.content)) {
-        // Remove ALL empty text blocks
-        m.content = m.content.filter((b: any) => {
-          if (typeof b === "string") return b.trim().length > 0;
-          if (b?.type === "text") {
-            if (
-              !b.text ||
-              typeof b.text !== "string" ||
-              b.text.trim().length === 0
-            ) {
-              changed = true;
-              return false;
-            }
+        checkKeys(price, ["inputPerMTok", "outputPerMTok"], path, errors);
+        const merged = { ...settings.pricing[model] } as Partial<ModelPrice>;
+        for (const key of ["inputPerMTok", "outputPerMTok"] as const) {
+          if (price[key] === undefined) continue;
+          if (checkNumber(price[key], `${path}.${key}`, errors)) {
+            merged[key] = price[key];
           }
-          return true;
-        });
+        }
+        if (
+          merged.inputPerMTok === undefined ||
+          merged.outputPerMTok === undefined
+        ) {
+          errors.push(
+            `${path}: both inputPerMTok and outputPerMTok are required`,
+          );
+        } else {
+          settings.pricing[model] = merged as ModelPrice;
+        }
+      }
+    }
+  }
 
-        if (m.content.length === 0) {
-          m.content = ".";
-          changed = true;
+  if (raw.budgets !== undefined) {
+    validateBudgets(raw.budgets, settings.budgets, errors);
+  }
+  if (raw.rateLimits !== undefined) {
+    validateRateLimits(raw.rateLimits, settings.rateLimits, errors);
+  }
+
+  if (raw.defaults !== undefined) {
+    if (!isPlainObject(raw.defaults)) {
+      errors.push("defaults: expected an object");
+    } else {
+      checkKeys(
+        raw.defaults,
+        ["maxTokens", "strippedFields"],
+        "defaults",
+        errors,
+      );
+      if (
+        raw.defaults.maxTokens !== undefined &&
+        checkInt(raw.defaults.maxTokens, "defaults.maxTokens", errors, 1)
+      ) {
+        settings.defaults.maxTokens = raw.defaults.maxTokens;
+      }
+      if (raw.defaults.strippedFields !== undefined) {
+        const fields = raw.defaults.strippedFields;
+        if (
+          !Array.isArray(fields) ||
+          !fields.every((f: unknown) => typeof f === "string")
+        ) {
+          errors.push(
+            "defaults.strippedFields: expected an array of field names",
+          );
         } else {
-          // Ensure text block exists (required alongside images)
-          const hasText = m.content.some(
-            (b: any) =>
-              (typeof b === "string" && b.trim().length > 0) ||
-              (b?.type === "text" &&
-                typeof b.text === "string" &&
-                b.text.trim().length > 0),
+          settings.defaults.strippedFields = fields;
+        }
+      }
+    }
+  }
+
+  if (raw.capabilityPolicy !== undefined) {
+    if (
+      raw.capabilityPolicy !== "reject" &&
+      raw.capabilityPolicy !== "downgrade"
+    ) {
+      errors.push('capabilityPolicy: expected "reject" or "downgrade"');
+    } else {
+      settings.capabilityPolicy = raw.capabilityPolicy;
+    }
+  }
+
+  if (raw.logging !== undefined) {
+    if (!isPlainObject(raw.logging)) {
+      errors.push("logging: expected { level, format }");
+    } else {
+      checkKeys(raw.logging, ["level", "format"], "logging", errors);
+      const { level, format } = raw.logging;
+      if (level !== undefined) {
+        if (!LOG_LEVELS.includes(level as LogLevel)) {
+          errors.push(
+            `logging.level: expected one of ${LOG_LEVELS.join(", ")}`,
           );
-          if (!hasText) {
-            m.content.unshift({ type: "text", text: "." });
-            changed = true;
+        } else {
+          settings.logging.level = level as LogLevel;
+        }
+      }
+      if (format !== undefined) {
+        if (format !== "pretty" && format !== "json") {
+          errors.push('logging.format: expected "pretty" or "json"');
+        } else {
+          settings.logging.format = format;
+        }
+      }
+    }
+  }
+
+  if (raw.models !== undefined) {
+    if (!isPlainObject(raw.models)) {
+      errors.push("models: expected an object keyed by model id");
+    } else {
+      for (const [id, override] of Object.entries(raw.models)) {
+        const path = `models.${id}`;
+        if (!isPlainObject(override)) {
+          errors.push(`${path}: expected an object`);
+          continue;
+        }
+        checkKeys(
+          override,
+          ["timeouts", "maxTokens", "capabilities", "fallbacks"],
+          path,
+          errors,
+        );
+        const merged: ModelOverride = { ...settings.models[id] };
+        if (override.timeouts !== undefined) {
+          merged.timeouts = {
+            ...merged.timeouts,
+            ...validateTimeouts(override.timeouts, `${path}.timeouts`, errors),
+          };
+        }
+        if (
+          override.maxTokens !== undefined &&
+          checkInt(override.maxTokens, `${path}.maxTokens`, errors, 1)
+        ) {
+          merged.maxTokens = override.maxTokens;
+        }
+        if (override.capabilities !== undefined) {
+          merged.capabilities = validateCapabilities(
+            override.capabilities,
+            `${path}.capabilities`,
+            errors,
+          );
+        }
+        if (override.fallbacks !== undefined) {
+          if (
+            !Array.isArray(override.fallbacks) ||
+            override.fallbacks.some(
+              (m: unknown) => typeof m !== "string" || m.trim().length === 0,
+            )
+          ) {
+            errors.push(`${path}.fallbacks: expected an array of model ids`);
+          } else {
+            merged.fallbacks = [...override.fallbacks];
           }
         }
-      } else {
-        // Unexpected type
-        m.content = toNonEmptyString(m.content, ".");
-        changed = true;
+        settings.models[id] = merged;
       }
+    }
+  }
+
+  return errors.length > 0 ? { settings: null, errors } : { settings, errors };
+}
+
+function findProxyConfigFile(): string | null {
+  const explicit = process.env.DO_PROXY_CONFIG;
+  if (typeof explicit === "string" && explicit.length > 0) return explicit;
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(process.cwd(), name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+export function loadProxyConfigFile(path: string): {
+  settings: ProxySettings | null;
+  errors: string[];
+} {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    raw = /\.ya?ml$/i.test(path) ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (e) {
+    return {
+      settings: null,
+      errors: [`${path}: ${e instanceof Error ? e.message : String(e)}`],
+    };
+  }
+  return validateProxyConfig(raw);
+}
+
+// Swaps in the settings from `path`. A broken file is reported and the
+// previous settings stay active.
+export function reloadProxyConfig(path: string): boolean {
+  const { settings, errors } = loadProxyConfigFile(path);
+  if (!settings) {
+    log.error(`❌ Config ${path} is invalid, keeping previous settings:`);
+    for (const err of errors) log.error(`   • ${err}`);
+    return false;
+  }
+  currentSettings = settings;
+  log.info(`🔁 Loaded config from ${path}`);
+  return true;
+}
+
+// Reloads on file changes (debounced, editors write in bursts) and SIGHUP.
+// The directory is watched, not the file: editors that save by renaming a
+// temp file over it replace the inode a file watch is bound to, and a config
+// created after startup has no file to watch yet. Returns a stop function.
+export function watchProxyConfig(path: string | null): () => void {
+  const dir = path ? dirname(path) : process.cwd();
+  const names = path ? [basename(path)] : CONFIG_FILE_NAMES;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let watcher: FSWatcher | null = null;
+  let stopped = false;
+
+  const reload = () => {
+    const target = path ?? findProxyConfigFile();
+    // mid-save the file can be briefly missing; the next event reloads it
+    if (target && existsSync(target)) reloadProxyConfig(target);
+    else log.warn("⚠️  No config file found to reload");
+  };
+
+  const onSighup = () => {
+    log.info("📨 SIGHUP received");
+    reload();
+  };
+  process.on("SIGHUP", onSighup);
+
+  const arm = () => {
+    if (stopped) return;
+    try {
+      watcher = watch(dir, (_event, name) => {
+        if (name && !names.includes(String(name))) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(reload, 200);
+      });
+      // the directory itself was renamed or removed: watch it again later
+      watcher.on("error", () => {
+        watcher?.close();
+        timer = setTimeout(arm, 1000);
+      });
+    } catch (e) {
+      log.warn(`⚠️  Cannot watch ${dir}, use SIGHUP to reload`, { error: e });
+    }
+  };
+  arm();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    watcher?.close();
+    process.off("SIGHUP", onSighup);
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// LOGGING
+// ══════════════════════════════════════════════════════════════════════════════
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFormat = "pretty" | "json";
+type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+type Logger = {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+};
+
+// Fields of the request being handled (its ID), picked up by code that logs
+// without being handed a logger, such as the normaliser and fetchWithRetry
+const logContext = new AsyncLocalStorage<LogFields>();
+
+function logFieldValue(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+function writeLog(level: LogLevel, msg: string, fields: LogFields): void {
+  const { logging } = getProxySettings();
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logging.level)) return;
+  const out =
+    level === "warn" || level === "error" ? process.stderr : process.stdout;
+  const entries = Object.entries({ ...logContext.getStore(), ...fields })
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => [k, logFieldValue(v)] as const);
+
+  if (logging.format === "json") {
+    out.write(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg,
+        ...Object.fromEntries(entries),
+      }) + "\n",
+    );
+    return;
+  }
+
+  // pretty: the message as it always looked, request ID first, fields after
+  const requestId = entries.find(([k]) => k === "requestId")?.[1];
+  const extras = entries
+    .filter(([k]) => k !== "requestId")
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`);
+  out.write(
+    [requestId ? `[${requestId}]` : "", msg, ...extras]
+      .filter(Boolean)
+      .join(" ") + "\n",
+  );
+}
+
+function createLogger(bindings: LogFields = {}): Logger {
+  const at =
+    (level: LogLevel) =>
+    (msg: string, fields: LogFields = {}) =>
+      writeLog(level, msg, { ...bindings, ...fields });
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+const log = createLogger();
+
+// Binds the current request's fields for callbacks that run after its async
+// context is gone, like stream pulls driven by the client's reads
+function requestLogger(): Logger {
+  return log.child({ ...logContext.getStore() });
+}
+
+// Honours a sane incoming X-Request-Id so IDs line up across services
+function requestIdFor(req: Request): string {
+  const incoming = req.headers.get("x-request-id");
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming)
+    ? incoming
+    : `req_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// MODEL ALIASES
+// ══════════════════════════════════════════════════════════════════════════════
+
+// `alias` is an exact name, a glob (`*`, `?`) or a `/regex/`. `target` is a
+// model id, or a glob/regex that resolves to the newest matching live model.
+// With a regex alias, `$1`… in the target are replaced by its captures.
+export type AliasRule = { alias: string; target: string };
+
+const BUILTIN_ALIAS_RULES: AliasRule[] = [
+  { alias: "claude-sonnet-latest", target: "anthropic-claude-*sonnet*" },
+  { alias: "claude-haiku-latest", target: "anthropic-claude-*haiku*" },
+  { alias: "claude-opus-latest", target: "anthropic-claude-*opus*" },
+  { alias: "gpt-latest", target: "/^openai-gpt-[\\d.]+$/" },
+  { alias: "gpt-latest-mini", target: "openai-gpt-*-mini" },
+  { alias: "gpt-latest-pro", target: "openai-gpt-*-pro" },
+  { alias: "codex-latest", target: "openai-gpt-*-codex*" },
+];
+
+function compileModelPattern(pattern: string): RegExp | null {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1] ?? "", regex[2]);
+  if (!/[*?]/.test(pattern)) return null;
+  const source = pattern
+    .split("")
+    .map((c) =>
+      c === "*"
+        ? ".*"
+        : c === "?"
+          ? "."
+          : c.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+// "anthropic-claude-4.5-sonnet" → [4, 5]; "openai-gpt-5.1-codex-max" → [5, 1]
+function parseModelVersion(id: string): number[] {
+  const match = id.match(/\d+(?:\.\d+)*/);
+  return match ? match[0].split(".").map(Number) : [];
+}
+
+function compareModelVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function newestMatchingModel(pattern: RegExp, ids: string[]): string | null {
+  let best: string | null = null;
+  for (const id of ids) {
+    if (!pattern.test(id)) continue;
+    if (
+      best === null ||
+      compareModelVersions(parseModelVersion(id), parseModelVersion(best)) >
+        0 ||
+      (compareModelVersions(parseModelVersion(id), parseModelVersion(best)) ===
+        0 &&
+        id.length < best.length)
+    ) {
+      best = id;
+    }
+  }
+  return best;
+}
+
+function resolveAliasRules(
+  model: string,
+  rules: AliasRule[],
+  ids: string[],
+): string | null {
+  for (const rule of rules) {
+    let target = rule.target;
+    const aliasPattern = compileModelPattern(rule.alias);
+
+    if (aliasPattern) {
+      const match = model.match(aliasPattern);
+      if (!match) continue;
+      target = target.replace(/\$(\d+)/g, (_, n) => match[Number(n)] ?? "");
+    } else if (rule.alias !== model) {
       continue;
     }
 
-    // -- ASSISTANT --
-    if (m.role === "assistant") {
-      // DO requires content to be a non-empty string
-      if (typeof m.content !== "string") {
-        m.content = toNonEmptyString(m.content, "...");
-        changed = true;
+    const targetPattern = compileModelPattern(target);
+    if (!targetPattern) return target;
+    const newest = newestMatchingModel(targetPattern, ids);
+    if (newest) return newest;
+  }
+  return null;
+}
+
+// Resolves alias rules against DO's live model list, refetched every
+// `aliasRefreshMs`. Falls back to the configured fallback models while the
+// live list is unavailable.
+function createModelAliasResolver(fetchModels: () => Promise<any[] | null>) {
+  let ids: string[] | null = null;
+  let source: "live" | "fallback" = "fallback";
+  let refreshedAt = 0;
+  let refreshing: Promise<void> | null = null;
+  const resolved = new Map<string, string | null>();
+  // the configured rules `resolved` was filled under; a reload replaces them
+  let resolvedFor: AliasRule[] | null = null;
+
+  const refresh = () =>
+    (refreshing ??= (async () => {
+      try {
+        const remote = await fetchModels();
+        if (remote && remote.length > 0) {
+          ids = remote
+            .map((m: any) => m?.id)
+            .filter((id: any) => typeof id === "string");
+          source = "live";
+        } else if (ids === null) {
+          // a previously fetched live list is kept when a refresh fails
+          ids = getProxySettings().fallbackModels.map((m) => m.id);
+          source = "fallback";
+        }
+        refreshedAt = Date.now();
+        resolved.clear();
+      } finally {
+        refreshing = null;
       }
-      if (m.content.trim().length === 0) {
-        m.content = "...";
-        changed = true;
+    })());
+
+  function rules(): AliasRule[] {
+    return [...getProxySettings().aliasRules, ...BUILTIN_ALIAS_RULES];
+  }
+
+  return {
+    async resolve(model: string): Promise<string | null> {
+      const active = rules();
+      if (
+        !active.some(
+          (r) => r.alias === model || compileModelPattern(r.alias)?.test(model),
+        )
+      ) {
+        return null;
       }
-      continue;
-    }
 
-    // -- TOOL --
-    if (m.role === "tool") {
-      if (typeof m.content !== "string") {
-        m.content = processToolContent(m.content);
-        changed = true;
+      if (ids === null) await refresh();
+      else if (Date.now() - refreshedAt > getProxySettings().aliasRefreshMs) {
+        void refresh();
       }
-      if (m.content.trim().length === 0) {
-        m.content = "(empty output)";
-        changed = true;
+
+      if (resolvedFor !== getProxySettings().aliasRules) {
+        resolved.clear();
+        resolvedFor = getProxySettings().aliasRules;
       }
-      continue;
+      if (!resolved.has(model)) {
+        resolved.set(model, resolveAliasRules(model, active, ids ?? []));
+      }
+      return resolved.get(model) ?? null;
+    },
+
+    async snapshot(): Promise<any> {
+      if (ids === null) await refresh();
+      const active = rules();
+      return {
+        source,
+        refreshed_at: new Date(refreshedAt).toISOString(),
+        models: ids,
+        mapping: getProxySettings().modelMapping,
+        rules: active.map((r) => ({
+          ...r,
+          resolved: compileModelPattern(r.alias)
+            ? null
+            : resolveAliasRules(r.alias, [r], ids ?? []),
+        })),
+        recent: Object.fromEntries(resolved),
+      };
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// MODEL CAPABILITIES
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type ModelCapabilities = {
+  contextWindow: number;
+  maxOutputTokens: number;
+  vision: boolean;
+  tools: boolean;
+  reasoning: boolean;
+  streaming: boolean;
+};
+
+// One entry per FALLBACK_MODELS id; config `models.<id>.capabilities`
+// overrides these or describes models that are not listed here
+const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  "anthropic-claude-haiku-4.5": {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "anthropic-claude-4.5-sonnet": {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "anthropic-claude-opus-4.6": {
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "openai-gpt-5.1-codex-max": {
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "openai-gpt-5-mini": {
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "openai-gpt-5.2": {
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+  "openai-gpt-5.2-pro": {
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    vision: true,
+    tools: true,
+    reasoning: true,
+    streaming: false,
+  },
+  "openai-gpt-oss-120b": {
+    contextWindow: 128_000,
+    maxOutputTokens: 32_768,
+    vision: false,
+    tools: true,
+    reasoning: true,
+    streaming: true,
+  },
+};
+
+function capabilitiesFor(
+  model: string | undefined,
+  settings: ProxySettings,
+): ModelCapabilities | null {
+  if (typeof model !== "string") return null;
+  const base = MODEL_CAPABILITIES[model];
+  const override = settings.models[model]?.capabilities;
+  if (!base && !override) return null;
+  return {
+    contextWindow: 128_000,
+    maxOutputTokens: settings.defaults.maxTokens,
+    vision: true,
+    tools: true,
+    reasoning: false,
+    streaming: true,
+    ...base,
+    ...override,
+  };
+}
+
+function hasImageContent(messages: any[]): boolean {
+  return messages.some(
+    (m: any) =>
+      Array.isArray(m?.content) &&
+      m.content.some(
+        (b: any) => b?.type === "image_url" || b?.type === "image",
+      ),
+  );
+}
+
+type CapabilityIssue = { message: string; param: string };
+
+// Applies the registry to a normalised chat body: picks and clamps
+// max_tokens, and rejects (or, with the "downgrade" policy, strips) inputs the
+// model cannot take. Returns the first issue that blocks the request.
+function applyModelCapabilities(
+  body: any,
+  caps: ModelCapabilities,
+  defaultMaxTokens: number,
+  policy: "reject" | "downgrade",
+): CapabilityIssue | null {
+  const limit = caps.maxOutputTokens;
+  for (const field of ["max_tokens", "max_completion_tokens"]) {
+    if (typeof body[field] === "number" && body[field] > limit) {
+      log.info(`📏 ${body.model} ${field} ${body[field]} → ${limit}`);
+      body[field] = limit;
     }
   }
+  if (
+    typeof body.max_tokens !== "number" &&
+    typeof body.max_completion_tokens !== "number"
+  ) {
+    body.max_tokens = Math.min(defaultMaxTokens, limit);
+  }
 
-  // STEP 8: Combine
-  const final = [...systemMsgs, ...alternated];
+  const messages: any[] = Array.isArray(body.messages) ? body.messages : [];
 
-  if (final.length === 0) {
-    final.push({ role: "user", content: "Hello." });
-    changed = true;
+  if (!caps.vision && hasImageContent(messages)) {
+    if (policy === "reject") {
+      return {
+        message: `Model ${body.model} does not accept image input`,
+        param: "messages",
+      };
+    }
+    for (const m of messages) {
+      if (!Array.isArray(m.content)) continue;
+      m.content = m.content
+        .map((b: any) =>
+          b?.type === "image_url" || b?.type === "image"
+            ? "[image omitted: model does not support images]"
+            : b?.type === "text"
+              ? b.text
+              : b,
+        )
+        .filter((b: any) => typeof b === "string")
+        .join("\n");
+    }
+    log.warn(`⚠️  ${body.model}: images replaced with placeholders`);
   }
 
-  // ════════════════════════════════════════════════════════════════════════
-  // STEP 9: PARANOIA CHECK — scan everything one more time
-  // If ANYTHING is empty, fix it. This catches bugs in Steps 1-8.
-  // ════════════════════════════════════════════════════════════════════════
-  for (const m of final) {
-    if (typeof m.content === "string" && m.content.trim().length === 0) {
-      console.error(
-        `🚨 PARANOIA: Empty content found in ${m.role} message after all processing!`,
-      );
-      m.content =
-        m.role === "tool" ? "(empty)" : m.role === "assistant" ? "..." : ".";
-      changed = true;
+  if (!caps.tools && Array.isArray(body.tools) && body.tools.length > 0) {
+    if (policy === "reject") {
+      return {
+        message: `Model ${body.model} does not support tool calling`,
+        param: "tools",
+      };
     }
-    if (m.content === null || m.content === undefined) {
-      console.error(
-        `🚨 PARANOIA: null/undefined content in ${m.role} message!`,
-      );
-      m.content =
-        m.role === "tool" ? "(empty)" : m.role === "assistant" ? "..." : ".";
-      changed = true;
+    delete body.tools;
+    delete body.tool_choice;
+    log.warn(`⚠️  ${body.model}: tools removed`);
+  }
+
+  if (!caps.reasoning) {
+    for (const field of ["reasoning_effort", "thinking"]) {
+      if (body[field] !== undefined) {
+        delete body[field];
+        log.warn(`⚠️  ${body.model}: ${field} dropped`);
+      }
     }
   }
 
-  body.messages = final;
+  return null;
+}
 
-  if (changed) {
-    const tc = final.filter((m: any) => Array.isArray(m.tool_calls)).length;
-    const tr = final.filter((m: any) => m.role === "tool").length;
-    console.log(
-      `🧹 Normalised: ${final.length} msgs | ${tc} tool_calls | ${tr} tool_results`,
-    );
+function modelWithCapabilities(model: any, settings: ProxySettings): any {
+  const caps = capabilitiesFor(model?.id, settings);
+  if (!caps) return model;
+  return {
+    ...model,
+    context_window: caps.contextWindow,
+    max_output_tokens: caps.maxOutputTokens,
+    capabilities: {
+      vision: caps.vision,
+      tools: caps.tools,
+      reasoning: caps.reasoning,
+      streaming: caps.streaming,
+    },
+  };
+}
+
+// Replays a buffered chat completion as a chat-completions SSE stream, for
+// models that cannot stream but were asked to
+function chatCompletionToSseStream(resp: any): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const choice = resp?.choices?.[0] ?? {};
+  const message = choice.message ?? {};
+  const base = {
+    id: resp?.id ?? `chatcmpl-${Date.now().toString(36)}`,
+    object: "chat.completion.chunk",
+    created: resp?.created ?? Math.floor(Date.now() / 1000),
+    model: resp?.model,
+  };
+
+  const delta: any = { role: "assistant" };
+  if (typeof message.content === "string") delta.content = message.content;
+  if (typeof message.reasoning_content === "string") {
+    delta.reasoning_content = message.reasoning_content;
   }
+  if (Array.isArray(message.tool_calls)) {
+    delta.tool_calls = message.tool_calls.map((tc: any, index: number) => ({
+      index,
+      ...tc,
+    }));
+  }
+
+  const events = [
+    { ...base, choices: [{ index: 0, delta, finish_reason: null }] },
+    {
+      ...base,
+      choices: [
+        { index: 0, delta: {}, finish_reason: choice.finish_reason ?? "stop" },
+      ],
+      ...(resp?.usage ? { usage: resp.usage } : {}),
+    },
+  ];
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const e of events)
+        controller.enqueue(encoder.encode(encodeSseEvent(e)));
+      controller.enqueue(encoder.encode(encodeSseEvent("[DONE]")));
+      controller.close();
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// CONTENT HELPERS
+// ══════════════════════════════════════════════════════════════════════════════
+
+function ensureNonEmpty(s: any, fallback: string = "."): string {
+  if (typeof s === "string" && s.trim().length > 0) return s;
+  return fallback;
+}
+
+function toNonEmptyString(content: any, fallback: string = "."): string {
+  if (typeof content === "string") {
+    return content.trim().length > 0 ? content : fallback;
+  }
+  if (content == null) return fallback;
+  if (Array.isArray(content)) {
+    const text = content
+      .map((b: any) => {
+        if (typeof b === "string") return b;
+        if (b?.type === "text" && typeof b.text === "string") return b.text;
+        return "";
+      })
+      .join("")
+      .trim();
+    return text.length > 0 ? text : fallback;
+  }
+  const str = String(content).trim();
+  return str.length > 0 ? str : fallback;
+}
+
+function convertImageBlock(block: any): any {
+  if (!block || block.type !== "image_url") return null;
+
+  const imageUrl = block.image_url;
+  const url: string =
+    typeof imageUrl === "string"
+      ? imageUrl
+      : typeof imageUrl?.url === "string"
+        ? imageUrl.url
+        : "";
+
+  if (!url) return null;
+
+  if (
+    url.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,/s) ||
+    url.startsWith("http://") ||
+    url.startsWith("https://")
+  ) {
+    return { type: "image_url", image_url: { url } };
+  }
+
+  return null;
+}
+
+function processUserContent(content: any): string | any[] {
+  if (typeof content === "string") {
+    return ensureNonEmpty(content);
+  }
+
+  if (!Array.isArray(content)) {
+    return ensureNonEmpty(toNonEmptyString(content));
+  }
+
+  const blocks: any[] = [];
+  let hasImage = false;
+  const textParts: string[] = [];
+
+  for (const block of content) {
+    if (typeof block === "string") {
+      if (block.trim().length > 0) textParts.push(block.trim());
+      continue;
+    }
+
+    if (!block || typeof block !== "object") continue;
+
+    if (block.type === "text") {
+      if (typeof block.text === "string" && block.text.trim().length > 0) {
+        textParts.push(block.text.trim());
+      }
+      continue;
+    }
+
+    if (block.type === "image_url") {
+      const converted = convertImageBlock(block);
+      if (converted) {
+        hasImage = true;
+        blocks.push(converted);
+      }
+      continue;
+    }
+
+    if (block.type === "image") {
+      hasImage = true;
+      blocks.push(block);
+      continue;
+    }
+
+    if (block.type === "tool_result" || block.type === "tool_use") continue;
+  }
+
+  if (!hasImage) {
+    const text = textParts.join("\n").trim();
+    return text.length > 0 ? text : ".";
+  }
+
+  const result: any[] = [];
+  const text = textParts.join("\n").trim();
+  result.push({
+    type: "text",
+    text: text.length > 0 ? text : "See attached image:",
+  });
+  for (const block of blocks) result.push(block);
+  return result;
+}
+
+function processAssistantContent(content: any): string {
+  // DO requires assistant content to be a plain non-empty string
+  if (typeof content === "string") {
+    return content.trim().length > 0 ? content : "...";
+  }
+  if (content == null) return "...";
+
+  if (Array.isArray(content)) {
+    // Extract only text, skip tool_use blocks
+    const textParts: string[] = [];
+    for (const block of content) {
+      if (typeof block === "string" && block.trim().length > 0) {
+        textParts.push(block);
+      } else if (
+        block?.type === "text" &&
+        typeof block.text === "string" &&
+        block.text.trim().length > 0
+      ) {
+        textParts.push(block.text);
+      }
+    }
+    const joined = textParts.join("\n").trim();
+    return joined.length > 0 ? joined : "...";
+  }
+
+  const str = String(content).trim();
+  return str.length > 0 ? str : "...";
+}
+
+function processToolContent(content: any): string {
+  if (typeof content === "string" && content.trim().length > 0) return content;
+  if (content == null) return "(empty output)";
+  if (typeof content === "object") {
+    try {
+      const json = JSON.stringify(content);
+      return json.length > 2 ? json : "(empty output)";
+    } catch {
+      return "(serialization error)";
+    }
+  }
+  const str = String(content).trim();
+  return str.length > 0 ? str : "(empty output)";
+}
+
+function normalizeToolCalls(toolCalls: any[]): any[] {
+  if (!Array.isArray(toolCalls)) return [];
+
+  return toolCalls
+    .filter((tc) => tc && typeof tc === "object")
+    .map((tc) => {
+      const id =
+        typeof tc.id === "string" && tc.id.length > 0
+          ? tc.id
+          : `tc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+      const name = tc.function?.name || tc.name || "unknown_tool";
+
+      let args = tc.function?.arguments ?? tc.arguments ?? "{}";
+      if (typeof args === "object" && args !== null) {
+        try {
+          args = JSON.stringify(args);
+        } catch {
+          args = "{}";
+        }
+      }
+      if (typeof args !== "string" || args.trim().length === 0) args = "{}";
+      try {
+        JSON.parse(args);
+      } catch {
+        args = JSON.stringify({ raw: args });
+      }
+
+      return { id, type: "function", function: { name, arguments: args } };
+    });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// MESSAGE NORMALISATION
+// ══════════════════════════════════════════════════════════════════════════════
+
+function normalizeChatCompletionsMessages(body: any): { changed: boolean } {
+  if (!body || !Array.isArray(body.messages)) return { changed: false };
+
+  let changed = false;
+  const input: any[] = body.messages;
+
+  // STEP 1: Separate system messages
+  const systemMsgs: any[] = [];
+  const nonSystemMsgs: any[] = [];
+
+  for (const m of input) {
+    if (!m || typeof m !== "object") continue;
+    if (m.role === "system") {
+      systemMsgs.push({ role: "system", content: ensureNonEmpty(m.content) });
+    } else {
+      nonSystemMsgs.push(m);
+    }
+  }
+
+  // STEP 2: Index all tool results
+  const toolResultsById = new Map<string, string>();
+
+  for (const m of nonSystemMsgs) {
+    if (
+      m.role === "tool" &&
+      typeof m.tool_call_id === "string" &&
+      m.tool_call_id.length > 0
+    ) {
+      toolResultsById.set(m.tool_call_id, processToolContent(m.content));
+    }
+  }
+
+  // STEP 3: Build normalized sequence
+  const normalized: any[] = [];
+  const usedToolIds = new Set<string>();
+
+  for (const m of nonSystemMsgs) {
+    if (m.role === "tool") continue;
+
+    if (m.role === "user") {
+      const content = processUserContent(m.content);
+      normalized.push({ role: "user", content });
+      continue;
+    }
+
+    if (m.role === "assistant") {
+      const toolCalls = normalizeToolCalls(m.tool_calls);
+
+      // Get text content - ALWAYS non-empty
+      let content = processAssistantContent(m.content);
+
+      const assistantMsg: any = { role: "assistant", content };
+
+      if (toolCalls.length > 0) {
+        assistantMsg.tool_calls = toolCalls;
+      }
+
+      normalized.push(assistantMsg);
+
+      // Place tool results immediately after
+      if (toolCalls.length > 0) {
+        for (const tc of toolCalls) {
+          usedToolIds.add(tc.id);
+          const result = toolResultsById.get(tc.id);
+
+          normalized.push({
+            role: "tool",
+            tool_call_id: tc.id,
+            content: result ?? "(tool was not executed or result was lost)",
+          });
+
+          if (!result) {
+            metrics.inc("do_proxy_normalizations_total", {
+              kind: "synthetic_tool_result",
+            });
+            log.warn(`⚠️  Synthetic result for ${tc.id} (${tc.function.name})`);
+            changed = true;
+          }
+        }
+      }
+
+      continue;
+    }
+
+    log.warn(`⚠️  Skipping unknown role: ${m.role}`);
+    changed = true;
+  }
+
+  // STEP 4: Orphan tool results
+  for (const [id, content] of toolResultsById) {
+    if (!usedToolIds.has(id)) {
+      metrics.inc("do_proxy_normalizations_total", {
+        kind: "orphan_tool_result",
+      });
+      log.warn(`⚠️  Orphan tool result ${id} → user message`);
+      normalized.push({
+        role: "user",
+        content: `[Previous tool output for ${id}]:\n${content}`,
+      });
+      changed = true;
+    }
+  }
+
+  // STEP 5: Fix alternation
+  const alternated: any[] = [];
+
+  function isUserSide(role: string): boolean {
+    return role === "user" || role === "tool";
+  }
+
+  for (let i = 0; i < normalized.length; i++) {
+    const m = normalized[i];
+
+    if (alternated.length === 0) {
+      alternated.push(m);
+      continue;
+    }
+
+    const prev = alternated[alternated.length - 1];
+
+    // tool after assistant with tool_calls = OK
+    if (
+      m.role === "tool" &&
+      prev.role === "assistant" &&
+      Array.isArray(prev.tool_calls)
+    ) {
+      alternated.push(m);
+      continue;
+    }
+
+    // tool after tool = OK
+    if (m.role === "tool" && prev.role === "tool") {
+      alternated.push(m);
+      continue;
+    }
+
+    const prevUserSide = isUserSide(prev.role);
+    const currUserSide = isUserSide(m.role);
+
+    if (prevUserSide === currUserSide) {
+      if (prevUserSide) {
+        if (
+          typeof prev.content === "string" &&
+          typeof m.content === "string" &&
+          prev.role === "user" &&
+          m.role === "user"
+        ) {
+          prev.content = prev.content + "\n\n" + m.content;
+          changed = true;
+          continue;
+        }
+        alternated.push({ role: "assistant", content: "Understood." });
+        metrics.inc("do_proxy_normalizations_total", {
+          kind: "alternation_filler",
+        });
+        changed = true;
+      } else {
+        if (
+          typeof prev.content === "string" &&
+          typeof m.content === "string" &&
+          !prev.tool_calls &&
+          !m.tool_calls
+        ) {
+          prev.content = prev.content + "\n\n" + m.content;
+          changed = true;
+          continue;
+        }
+        alternated.push({ role: "user", content: "Continue." });
+        metrics.inc("do_proxy_normalizations_total", {
+          kind: "alternation_filler",
+        });
+        changed = true;
+      }
+    }
+
+    alternated.push(m);
+  }
+
+  // STEP 6: First message must be user
+  if (alternated.length > 0 && !isUserSide(alternated[0].role)) {
+    alternated.unshift({ role: "user", content: "Begin." });
+    metrics.inc("do_proxy_normalizations_total", {
+      kind: "alternation_filler",
+    });
+    changed = true;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // STEP 7: FINAL SWEEP — absolutely guarantee no empty content anywhere
+  //
+  // This is the LAST LINE OF DEFENCE. Every single message gets checked.
+  // ════════════════════════════════════════════════════════════════════════
+  for (const m of alternated) {
+    // -- SYSTEM --
+    if (m.role === "system") {
+      if (typeof m.content !== "string") {
+        m.content = toNonEmptyString(m.content, "You are a helpful assistant.");
+        changed = true;
+      } else if (m.content.trim().length === 0) {
+        m.content = "You are a helpful assistant.";
+        changed = true;
+      }
+      continue;
+    }
+
+    // -- USER --
+    if (m.role === "user") {
+      if (typeof m.content === "string") {
+        if (m.content.trim().length === 0) {
+          m.content = ".";
+          changed = true;
+        }
+      } else if (Array.isArray(m.content)) {
+        // Remove ALL empty text blocks
+        m.content = m.content.filter((b: any) => {
+          if (typeof b === "string") return b.trim().length > 0;
+          if (b?.type === "text") {
+            if (
+              !b.text ||
+              typeof b.text !== "string" ||
+              b.text.trim().length === 0
+            ) {
+              changed = true;
+              return false;
+            }
+          }
+          return true;
+        });
+
+        if (m.content.length === 0) {
+          m.content = ".";
+          changed = true;
+        } else {
+          // Ensure text block exists (required alongside images)
+          const hasText = m.content.some(
+            (b: any) =>
+              (typeof b === "string" && b.trim().length > 0) ||
+              (b?.type === "text" &&
+                typeof b.text === "string" &&
+                b.text.trim().length > 0),
+          );
+          if (!hasText) {
+            m.content.unshift({ type: "text", text: "." });
+            changed = true;
+          }
+        }
+      } else {
+        // Unexpected type
+        m.content = toNonEmptyString(m.content, ".");
+        changed = true;
+      }
+      continue;
+    }
+
+    // -- ASSISTANT --
+    if (m.role === "assistant") {
+      // DO requires content to be a non-empty string
+      if (typeof m.content !== "string") {
+        m.content = toNonEmptyString(m.content, "...");
+        changed = true;
+      }
+      if (m.content.trim().length === 0) {
+        m.content = "...";
+        changed = true;
+      }
+      continue;
+    }
+
+    // -- TOOL --
+    if (m.role === "tool") {
+      if (typeof m.content !== "string") {
+        m.content = processToolContent(m.content);
+        changed = true;
+      }
+      if (m.content.trim().length === 0) {
+        m.content = "(empty output)";
+        changed = true;
+      }
+      continue;
+    }
+  }
+
+  // STEP 8: Combine
+  const final = [...systemMsgs, ...alternated];
+
+  if (final.length === 0) {
+    final.push({ role: "user", content: "Hello." });
+    changed = true;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════
+  // STEP 9: PARANOIA CHECK — scan everything one more time
+  // If ANYTHING is empty, fix it. This catches bugs in Steps 1-8.
+  // ════════════════════════════════════════════════════════════════════════
+  for (const m of final) {
+    if (typeof m.content === "string" && m.content.trim().length === 0) {
+      log.error(
+        `🚨 PARANOIA: Empty content found in ${m.role} message after all processing!`,
+      );
+      m.content =
+        m.role === "tool" ? "(empty)" : m.role === "assistant" ? "..." : ".";
+      changed = true;
+    }
+    if (m.content === null || m.content === undefined) {
+      log.error(`🚨 PARANOIA: null/undefined content in ${m.role} message!`);
+      m.content =
+        m.role === "tool" ? "(empty)" : m.role === "assistant" ? "..." : ".";
+      changed = true;
+    }
+  }
+
+  body.messages = final;
+
+  if (changed) {
+    const tc = final.filter((m: any) => Array.isArray(m.tool_calls)).length;
+    const tr = final.filter((m: any) => m.role === "tool").length;
+    log.info(
+      `🧹 Normalised: ${final.length} msgs | ${tc} tool_calls | ${tr} tool_results`,
+    );
+  }
+
+  return { changed };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// STRIP UNSUPPORTED FIELDS
+// ══════════════════════════════════════════════════════════════════════════════
+
+const STRIPPED_FIELDS = [
+  "parallel_tool_calls",
+  "response_format",
+  "logprobs",
+  "top_logprobs",
+  "seed",
+  "frequency_penalty",
+  "presence_penalty",
+  "logit_bias",
+  "user",
+  "service_tier",
+  "store",
+  "metadata",
+];
+
+function stripUnsupportedFields(
+  body: any,
+  fieldsToDelete: string[] = STRIPPED_FIELDS,
+): void {
+  for (const field of fieldsToDelete) {
+    if (body[field] !== undefined) delete body[field];
+  }
+
+  if (typeof body.n === "number" && body.n > 1) body.n = 1;
+
+  if (body.tool_choice === "auto") delete body.tool_choice;
+  if (body.tool_choice === "none") {
+    delete body.tool_choice;
+    delete body.tools;
+  }
+  if (body.tool_choice === "required") body.tool_choice = { type: "any" };
+
+  if (body.tool_choice && typeof body.tool_choice === "object") {
+    const tc = body.tool_choice;
+    if (tc.type === "function" && tc.function?.name) {
+      body.tool_choice = { type: "tool", name: tc.function.name };
+    }
+  }
+
+  if (Array.isArray(body.tools)) {
+    for (const tool of body.tools) {
+      if (tool?.type === "function" && tool.function) {
+        if (tool.function.strict !== undefined) delete tool.function.strict;
+        if (!tool.function.description) {
+          tool.function.description = tool.function.name || "A tool";
+        }
+      }
+    }
+    if (body.tools.length === 0) delete body.tools;
+  }
+
+  if (body.stop !== undefined) {
+    if (Array.isArray(body.stop)) body.stop_sequences = body.stop;
+    else if (typeof body.stop === "string") body.stop_sequences = [body.stop];
+    delete body.stop;
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// PROVIDER ADAPTERS
+// ══════════════════════════════════════════════════════════════════════════════
+
+type ProviderFamily = "anthropic" | "openai" | "oss";
+
+type ProviderAdapter = {
+  family: ProviderFamily;
+  // message-level rules, run on chat bodies before the capability registry
+  normalize(body: any): void;
+  // field mapping, run last on every parsed body for this family
+  mapFields(
+    body: any,
+    caps: ModelCapabilities | null,
+    settings: ProxySettings,
+  ): void;
+};
+
+// First match wins, so the open-weights models DO hosts under `openai-` come
+// before the OpenAI family itself. Anything unmatched is treated as OSS.
+const PROVIDER_PREFIXES: [string, ProviderFamily][] = [
+  ["anthropic-", "anthropic"],
+  ["openai-gpt-oss", "oss"],
+  ["openai-", "openai"],
+];
+
+const OPENAI_REASONING_EFFORTS = ["minimal", "low", "medium", "high"];
+const OSS_REASONING_EFFORTS = ["low", "medium", "high"];
+
+// Sampling knobs OpenAI reasoning models reject with a 400
+const OPENAI_REASONING_UNSUPPORTED = [
+  "presence_penalty",
+  "frequency_penalty",
+  "logprobs",
+  "top_logprobs",
+  "logit_bias",
+];
+
+function providerFamilyOf(model: string | undefined): ProviderFamily {
+  if (typeof model !== "string") return "oss";
+  return PROVIDER_PREFIXES.find(([p]) => model.startsWith(p))?.[1] ?? "oss";
+}
+
+// The message normaliser keeps only system/user/assistant/tool, so
+// `developer` instructions are folded into system messages first
+function developerToSystem(body: any): void {
+  if (!Array.isArray(body?.messages)) return;
+  for (const m of body.messages) {
+    if (m?.role === "developer") m.role = "system";
+  }
+}
+
+function renameField(body: any, from: string, to: string): void {
+  if (body[from] === undefined) return;
+  if (body[to] === undefined) body[to] = body[from];
+  delete body[from];
+}
+
+// Anthropic-style `thinking` → `reasoning_effort`, bucketed by budget
+function thinkingToReasoningEffort(body: any, allowed: string[]): void {
+  const thinking = body.thinking;
+  delete body.thinking;
+  if (body.reasoning_effort === undefined && thinking?.type === "enabled") {
+    const budget = Number(thinking.budget_tokens) || 0;
+    body.reasoning_effort =
+      budget > 16_384 ? "high" : budget > 4096 ? "medium" : "low";
+  }
+
+  if (body.reasoning_effort === undefined) return;
+  if (body.reasoning_effort === "minimal" && !allowed.includes("minimal")) {
+    body.reasoning_effort = "low";
+  }
+  if (!allowed.includes(body.reasoning_effort)) {
+    log.warn(
+      `⚠️  ${body.model}: reasoning_effort "${body.reasoning_effort}" dropped`,
+    );
+    delete body.reasoning_effort;
+  }
+}
+
+const PROVIDER_ADAPTERS: Record<ProviderFamily, ProviderAdapter> = {
+  anthropic: {
+    family: "anthropic",
+    normalize(body) {
+      developerToSystem(body);
+      normalizeChatCompletionsMessages(body);
+    },
+    mapFields(body, _caps, settings) {
+      renameField(body, "max_completion_tokens", "max_tokens");
+      stripUnsupportedFields(body, settings.defaults.strippedFields);
+      // Claude rejects OpenAI's knob (the Responses translation sets it from
+      // `reasoning`); extended thinking is asked for with `thinking` instead
+      if (body.reasoning_effort !== undefined) {
+        delete body.reasoning_effort;
+        log.info(`🩹 ${body.model}: dropped reasoning_effort`);
+      }
+    },
+  },
+
+  openai: {
+    family: "openai",
+    normalize(body) {
+      developerToSystem(body);
+      normalizeChatCompletionsMessages(body);
+    },
+    mapFields(body, caps) {
+      // GPT-5.x only accepts max_completion_tokens
+      renameField(body, "max_tokens", "max_completion_tokens");
+      thinkingToReasoningEffort(body, OPENAI_REASONING_EFFORTS);
+
+      if (caps?.reasoning === false) return;
+      const dropped: string[] = [];
+      for (const field of ["temperature", "top_p"]) {
+        // only the default of 1 is accepted
+        if (body[field] !== undefined && body[field] !== 1) {
+          delete body[field];
+          dropped.push(field);
+        }
+      }
+      for (const field of OPENAI_REASONING_UNSUPPORTED) {
+        if (body[field] !== undefined) {
+          delete body[field];
+          dropped.push(field);
+        }
+      }
+      if (dropped.length > 0) {
+        log.info(`🩹 ${body.model}: dropped ${dropped.join(", ")}`);
+      }
+    },
+  },
+
+  oss: {
+    family: "oss",
+    normalize(body) {
+      developerToSystem(body);
+      normalizeChatCompletionsMessages(body);
+    },
+    mapFields(body, caps) {
+      renameField(body, "max_completion_tokens", "max_tokens");
+      thinkingToReasoningEffort(body, OSS_REASONING_EFFORTS);
+      if (caps?.reasoning === false) delete body.reasoning_effort;
+    },
+  },
+};
+
+function providerAdapterFor(
+  model: string | undefined,
+  settings: ProxySettings,
+): ProviderAdapter {
+  const family =
+    routeModel(model, settings).upstream?.adapter ?? providerFamilyOf(model);
+  return PROVIDER_ADAPTERS[family];
+}
+
+function applyDefaultMaxTokens(body: any, maxTokens: number): void {
+  const hasMax =
+    (typeof body.max_tokens === "number" && Number.isFinite(body.max_tokens)) ||
+    (typeof body.max_completion_tokens === "number" &&
+      Number.isFinite(body.max_completion_tokens));
+  if (!hasMax) body.max_tokens = maxTokens;
+}
+
+// Re-targets a chat body at a fallback model. `source` is the body before the
+// requested model's adapter ran, so nothing that family needed (Anthropic's
+// `stop_sequences`, `tool_choice: {type: "tool"}`) reaches another family;
+// `primary` carries the stream settings already chosen for the request.
+// Returns null when the fallback cannot take the request as it stands.
+function prepareFallbackBody(
+  source: any,
+  primary: any,
+  model: string,
+  settings: ProxySettings,
+): any | null {
+  const next = structuredClone(source);
+  next.model = model;
+  next.stream = primary.stream;
+  if (primary.stream_options) next.stream_options = primary.stream_options;
+  else delete next.stream_options;
+
+  const adapter = providerAdapterFor(model, settings);
+  adapter.normalize(next);
+
+  const caps = capabilitiesFor(model, settings);
+  const defaultMaxTokens =
+    settings.models[model]?.maxTokens ?? settings.defaults.maxTokens;
+  if (caps) {
+    if (!caps.streaming && next.stream === true) return null;
+    // the fallback must not degrade the request any further than the primary
+    if (applyModelCapabilities(next, caps, defaultMaxTokens, "reject")) {
+      return null;
+    }
+  } else {
+    applyDefaultMaxTokens(next, defaultMaxTokens);
+  }
+
+  adapter.mapFields(next, caps, settings);
+  return next;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// SSE HELPERS
+// ══════════════════════════════════════════════════════════════════════════════
+
+// Yields the `data:` payload of every event in an SSE stream. Multi-line data
+// fields are joined with "\n"; comments and other fields are ignored. Aborting
+// `signal` cancels the stream, which ends the iteration.
+async function* readSseData(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const onAbort = () => void reader.cancel(signal?.reason).catch(() => {});
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      let nl: number;
+      while ((nl = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, nl).replace(/\r$/, "");
+        buffer = buffer.slice(nl + 1);
+
+        if (line.length === 0) {
+          if (dataLines.length > 0) yield dataLines.join("\n");
+          dataLines = [];
+          continue;
+        }
+        if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (buffer.startsWith("data:")) {
+      dataLines.push(buffer.slice(5).replace(/^ /, ""));
+    }
+    if (dataLines.length > 0) yield dataLines.join("\n");
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    reader.releaseLock();
+  }
+}
+
+function encodeSseEvent(data: unknown, event?: string): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  return `${event ? `event: ${event}\n` : ""}data: ${payload}\n\n`;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// STREAM PIPELINE
+// ══════════════════════════════════════════════════════════════════════════════
+
+type AssembledStream = {
+  id: string | null;
+  model: string | null;
+  content: string;
+  reasoning: string;
+  toolCalls: any[];
+  finishReason: string | null;
+  usage: any;
+  chunks: number;
+};
+
+const ANTHROPIC_FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+  pause_turn: "stop",
+};
+
+function normalizeFinishReason(reason: any): string | null {
+  if (typeof reason !== "string" || reason.length === 0) return null;
+  return ANTHROPIC_FINISH_REASONS[reason] ?? reason;
+}
+
+// Parses an upstream chat-completions SSE stream, repairs chunks that drift
+// from OpenAI's schema and re-serialises them. Tool-call deltas are assembled
+// per index so `onComplete` receives the final message once the stream ends.
+function normalizeChatStream(
+  upstream: ReadableStream<Uint8Array>,
+  opts: {
+    model?: string;
+    onComplete?: (assembled: AssembledStream) => void;
+    // called when the downstream client cancels the stream
+    onCancel?: (reason: unknown) => void;
+    // usage was requested by the proxy, not the client: read it, don't forward
+    dropUsage?: boolean;
+    // the stream failed after its headers were sent
+    onError?: (err: unknown) => void;
+  } = {},
+): ReadableStream<Uint8Array> {
+  const streamLog = requestLogger();
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    cancel(reason) {
+      cancelled = true;
+      opts.onCancel?.(reason);
+    },
+    async start(controller) {
+      const assembled: AssembledStream = {
+        id: null,
+        model: null,
+        content: "",
+        reasoning: "",
+        toolCalls: [],
+        finishReason: null,
+        usage: null,
+        chunks: 0,
+      };
+      const toolIndexById = new Map<string, number>();
+      let lastToolIndex = -1;
+      let fixes = 0;
+
+      const emit = (data: unknown) => {
+        if (!cancelled)
+          controller.enqueue(encoder.encode(encodeSseEvent(data)));
+      };
+
+      try {
+        for await (const data of readSseData(upstream)) {
+          if (data === "[DONE]") break;
+
+          let chunk: any;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            emit(data);
+            continue;
+          }
+
+          if (!chunk || typeof chunk !== "object" || chunk.error) {
+            emit(chunk);
+            continue;
+          }
+
+          assembled.chunks++;
+          assembled.id = assembled.id ?? chunk.id ?? null;
+          assembled.model = assembled.model ?? chunk.model ?? null;
+          const usage = chunk.usage;
+          if (usage) assembled.usage = usage;
+          if (opts.dropUsage) delete chunk.usage;
+
+          if (!Array.isArray(chunk.choices) || chunk.choices.length === 0) {
+            // Only the trailing usage chunk may legitimately have no choices
+            if (!usage) {
+              fixes++;
+              continue;
+            }
+            if (opts.dropUsage) continue;
+            chunk.choices = [];
+          }
+
+          chunk.id =
+            chunk.id ?? assembled.id ?? `chatcmpl-${Date.now().toString(36)}`;
+          chunk.object = "chat.completion.chunk";
+          chunk.created = chunk.created ?? Math.floor(Date.now() / 1000);
+          chunk.model =
+            chunk.model ?? assembled.model ?? opts.model ?? "unknown";
+
+          for (const choice of chunk.choices) {
+            if (typeof choice.index !== "number") {
+              choice.index = 0;
+              fixes++;
+            }
+            if (!choice.delta || typeof choice.delta !== "object") {
+              choice.delta = choice.message ?? {};
+              delete choice.message;
+              fixes++;
+            }
+
+            const finish = normalizeFinishReason(choice.finish_reason);
+            if (finish !== (choice.finish_reason ?? null)) fixes++;
+            choice.finish_reason = finish;
+            if (finish) assembled.finishReason = finish;
+
+            const delta = choice.delta;
+            if (typeof delta.content === "string")
+              assembled.content += delta.content;
+            const reasoning = delta.reasoning_content ?? delta.reasoning;
+            if (typeof reasoning === "string") assembled.reasoning += reasoning;
+
+            if (Array.isArray(delta.tool_calls)) {
+              for (const tc of delta.tool_calls) {
+                if (!tc || typeof tc !== "object") continue;
+
+                if (typeof tc.index !== "number") {
+                  fixes++;
+                  if (typeof tc.id === "string" && toolIndexById.has(tc.id)) {
+                    tc.index = toolIndexById.get(tc.id);
+                  } else if (typeof tc.id === "string" || lastToolIndex < 0) {
+                    tc.index = assembled.toolCalls.length;
+                  } else {
+                    tc.index = lastToolIndex;
+                  }
+                }
+                if (typeof tc.id === "string")
+                  toolIndexById.set(tc.id, tc.index);
+                lastToolIndex = tc.index;
+
+                const slot = (assembled.toolCalls[tc.index] ??= {
+                  id: tc.id ?? `call_${Date.now().toString(36)}_${tc.index}`,
+                  type: "function",
+                  function: { name: "", arguments: "" },
+                });
+                if (typeof tc.id === "string") slot.id = tc.id;
+                if (
+                  typeof tc.function?.name === "string" &&
+                  !slot.function.name
+                ) {
+                  slot.function.name = tc.function.name;
+                }
+                if (typeof tc.function?.arguments === "string") {
+                  slot.function.arguments += tc.function.arguments;
+                } else if (
+                  tc.function?.arguments &&
+                  typeof tc.function.arguments === "object"
+                ) {
+                  tc.function.arguments = JSON.stringify(tc.function.arguments);
+                  slot.function.arguments += tc.function.arguments;
+                  fixes++;
+                }
+              }
+            }
+          }
+
+          emit(chunk);
+        }
+
+        // Some upstreams end the stream without a finish_reason
+        if (assembled.chunks > 0 && !assembled.finishReason) {
+          assembled.finishReason =
+            assembled.toolCalls.length > 0 ? "tool_calls" : "stop";
+          emit({
+            id: assembled.id ?? `chatcmpl-${Date.now().toString(36)}`,
+            object: "chat.completion.chunk",
+            created: Math.floor(Date.now() / 1000),
+            model: assembled.model ?? opts.model ?? "unknown",
+            choices: [
+              { index: 0, delta: {}, finish_reason: assembled.finishReason },
+            ],
+          });
+          fixes++;
+        }
+
+        assembled.model = assembled.model ?? opts.model ?? null;
+        assembled.toolCalls = assembled.toolCalls.filter(Boolean);
+        if (fixes > 0)
+          streamLog.info(`🩹 Stream: repaired ${fixes} chunk field(s)`);
+        opts.onComplete?.(assembled);
+      } catch (e) {
+        if (cancelled) {
+          streamLog.info("🚫 Stream cancelled by client");
+        } else {
+          streamLog.error("❌ Stream error", { error: e });
+          opts.onError?.(e);
+          emit(streamErrorBody(e));
+        }
+      } finally {
+        emit("[DONE]");
+        if (!cancelled) controller.close();
+      }
+    },
+  });
+}
+
+function logAssembledStream(assembled: AssembledStream): void {
+  const usage = assembled.usage
+    ? ` | ${assembled.usage.prompt_tokens ?? "?"}→${assembled.usage.completion_tokens ?? "?"} tok`
+    : "";
+  log.info(
+    `🏁 ${assembled.model ?? "?"} | ${assembled.content.length} chars | ${assembled.toolCalls.length} tc | finish:${assembled.finishReason}${usage}`,
+  );
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// ANTHROPIC MESSAGES API
+// ══════════════════════════════════════════════════════════════════════════════
+
+function anthropicTextOf(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((b: any) => {
+      if (typeof b === "string") return b;
+      if (b?.type === "text" && typeof b.text === "string") return b.text;
+      return "";
+    })
+    .filter((t: string) => t.length > 0)
+    .join("\n");
+}
+
+function anthropicImageToImageUrl(block: any): any {
+  const source = block?.source;
+  if (source?.type === "base64" && typeof source.data === "string") {
+    const mediaType = source.media_type || "image/png";
+    return {
+      type: "image_url",
+      image_url: { url: `data:${mediaType};base64,${source.data}` },
+    };
+  }
+  if (source?.type === "url" && typeof source.url === "string") {
+    return { type: "image_url", image_url: { url: source.url } };
+  }
+  return null;
+}
+
+function anthropicToolChoiceToOpenAI(toolChoice: any): any {
+  if (!toolChoice || typeof toolChoice !== "object") return undefined;
+  if (toolChoice.type === "auto") return "auto";
+  if (toolChoice.type === "any") return "required";
+  if (toolChoice.type === "none") return "none";
+  if (toolChoice.type === "tool" && typeof toolChoice.name === "string") {
+    return { type: "function", function: { name: toolChoice.name } };
+  }
+  return undefined;
+}
+
+// Converts an Anthropic Messages request into the chat-completions shape the
+// rest of the proxy understands. The result still goes through
+// normalizeChatCompletionsMessages, so ordering and emptiness are fixed there.
+function anthropicToChatCompletions(body: any): any {
+  const messages: any[] = [];
+
+  const system = anthropicTextOf(body?.system);
+  if (system.trim().length > 0) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const m of Array.isArray(body?.messages) ? body.messages : []) {
+    if (!m || typeof m !== "object") continue;
+    const blocks: any[] =
+      typeof m.content === "string"
+        ? [{ type: "text", text: m.content }]
+        : Array.isArray(m.content)
+          ? m.content
+          : [];
+
+    if (m.role === "assistant") {
+      const text: string[] = [];
+      const toolCalls: any[] = [];
+      for (const b of blocks) {
+        if (b?.type === "text" && typeof b.text === "string") text.push(b.text);
+        if (b?.type === "tool_use") {
+          toolCalls.push({
+            id: b.id,
+            type: "function",
+            function: { name: b.name, arguments: b.input ?? {} },
+          });
+        }
+        // thinking / redacted_thinking blocks are not replayed upstream
+      }
+      const msg: any = { role: "assistant", content: text.join("\n") };
+      if (toolCalls.length > 0) msg.tool_calls = toolCalls;
+      messages.push(msg);
+      continue;
+    }
+
+    // user: tool_result blocks become tool messages, the rest stays user content
+    const userParts: any[] = [];
+    for (const b of blocks) {
+      if (b?.type === "tool_result") {
+        let content: any =
+          typeof b.content === "string"
+            ? b.content
+            : anthropicTextOf(b.content);
+        if (b.is_error === true) content = `[tool error] ${content}`;
+        messages.push({ role: "tool", tool_call_id: b.tool_use_id, content });
+        continue;
+      }
+      if (b?.type === "text") {
+        userParts.push({ type: "text", text: b.text });
+        continue;
+      }
+      if (b?.type === "image") {
+        const converted = anthropicImageToImageUrl(b);
+        if (converted) userParts.push(converted);
+      }
+    }
+    if (userParts.length > 0) {
+      messages.push({ role: "user", content: userParts });
+    }
+  }
+
+  const out: any = { model: body?.model, messages };
+
+  if (typeof body?.max_tokens === "number") out.max_tokens = body.max_tokens;
+  if (typeof body?.temperature === "number") out.temperature = body.temperature;
+  if (typeof body?.top_p === "number") out.top_p = body.top_p;
+  if (body?.stream === true) out.stream = true;
+  if (Array.isArray(body?.stop_sequences) && body.stop_sequences.length > 0) {
+    out.stop = body.stop_sequences;
+  }
+  if (body?.thinking && typeof body.thinking === "object") {
+    out.thinking = body.thinking;
+  }
+
+  if (Array.isArray(body?.tools) && body.tools.length > 0) {
+    out.tools = body.tools
+      .filter((t: any) => t && typeof t.name === "string")
+      .map((t: any) => ({
+        type: "function",
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.input_schema ?? { type: "object", properties: {} },
+        },
+      }));
+  }
+
+  const toolChoice = anthropicToolChoiceToOpenAI(body?.tool_choice);
+  if (toolChoice !== undefined) out.tool_choice = toolChoice;
+
+  return out;
+}
+
+function finishReasonToAnthropic(reason: any): string {
+  if (reason === "length") return "max_tokens";
+  if (reason === "tool_calls" || reason === "function_call") return "tool_use";
+  if (reason === "content_filter") return "refusal";
+  if (reason === "stop_sequence") return "stop_sequence";
+  return "end_turn";
+}
+
+function parseToolArguments(args: any): any {
+  if (args && typeof args === "object") return args;
+  if (typeof args !== "string" || args.trim().length === 0) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { raw: args };
+  }
+}
+
+function anthropicMessageId(id: any): string {
+  if (typeof id === "string" && id.startsWith("msg_")) return id;
+  return `msg_${typeof id === "string" && id.length > 0 ? id : Date.now().toString(36)}`;
+}
+
+function chatCompletionToAnthropic(resp: any, model: string): any {
+  const choice = resp?.choices?.[0] ?? {};
+  const message = choice.message ?? {};
+  const content: any[] = [];
+
+  const reasoning = message.reasoning_content ?? message.reasoning;
+  if (typeof reasoning === "string" && reasoning.length > 0) {
+    content.push({ type: "thinking", thinking: reasoning, signature: "" });
+  }
+
+  const text =
+    typeof message.content === "string"
+      ? message.content
+      : anthropicTextOf(message.content);
+  if (text.length > 0) content.push({ type: "text", text });
+
+  for (const tc of normalizeToolCalls(message.tool_calls)) {
+    content.push({
+      type: "tool_use",
+      id: tc.id,
+      name: tc.function.name,
+      input: parseToolArguments(tc.function.arguments),
+    });
+  }
+
+  return {
+    id: anthropicMessageId(resp?.id),
+    type: "message",
+    role: "assistant",
+    model: resp?.model ?? model,
+    content,
+    stop_reason: finishReasonToAnthropic(choice.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: resp?.usage?.prompt_tokens ?? 0,
+      output_tokens: resp?.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+function anthropicErrorType(status: number): string {
+  if (status === 400) return "invalid_request_error";
+  if (status === 401) return "authentication_error";
+  if (status === 402) return "billing_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 413) return "request_too_large";
+  if (status === 429) return "rate_limit_error";
+  if (status === 529 || status === 503) return "overloaded_error";
+  return "api_error";
+}
+
+function upstreamErrorMessage(errorBody: any, fallback: string): string {
+  if (typeof errorBody?.error?.message === "string")
+    return errorBody.error.message;
+  if (typeof errorBody?.error === "string") return errorBody.error;
+  if (typeof errorBody?.message === "string") return errorBody.message;
+  if (typeof errorBody?.raw === "string" && errorBody.raw.length > 0)
+    return errorBody.raw;
+  return fallback;
+}
+
+function anthropicError(status: number, message: string): any {
+  return {
+    type: "error",
+    error: { type: anthropicErrorType(status), message },
+  };
+}
+
+// Re-emits an OpenAI chat-completions SSE stream as Anthropic Messages events:
+// message_start → (content_block_start → content_block_delta* →
+// content_block_stop)* → message_delta → message_stop.
+function chatStreamToAnthropicStream(
+  upstream: ReadableStream<Uint8Array>,
+  model: string,
+): ReadableStream<Uint8Array> {
+  const streamLog = requestLogger();
+  const encoder = new TextEncoder();
+  // a client disconnect cancels the upstream read, which aborts the upstream
+  const cancelled = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    cancel(reason) {
+      cancelled.abort(reason);
+    },
+    async start(controller) {
+      const send = (event: string, data: any) => {
+        if (cancelled.signal.aborted) return;
+        controller.enqueue(
+          encoder.encode(encodeSseEvent({ type: event, ...data }, event)),
+        );
+      };
+
+      let started = false;
+      let blockIndex = -1;
+      let blockKind: "text" | "thinking" | "tool_use" | null = null;
+      let toolIndex: number | null = null;
+      let stopReason = "end_turn";
+      let failed = false;
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      const start = (id: any) => {
+        if (started) return;
+        started = true;
+        send("message_start", {
+          message: {
+            id: anthropicMessageId(id),
+            type: "message",
+            role: "assistant",
+            model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: inputTokens, output_tokens: 0 },
+          },
+        });
+        send("ping", {});
+      };
+
+      const closeBlock = () => {
+        if (blockKind === null) return;
+        send("content_block_stop", { index: blockIndex });
+        blockKind = null;
+        toolIndex = null;
+      };
+
+      const openBlock = (
+        kind: "text" | "thinking" | "tool_use",
+        block: any,
+      ) => {
+        closeBlock();
+        blockIndex++;
+        blockKind = kind;
+        send("content_block_start", {
+          index: blockIndex,
+          content_block: block,
+        });
+      };
+
+      try {
+        for await (const data of readSseData(upstream, cancelled.signal)) {
+          if (data === "[DONE]") break;
+          let chunk: any;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          if (chunk?.error) {
+            failed = true;
+            send(
+              "error",
+              anthropicError(
+                chunk.error.type === "timeout_error" ? 504 : 500,
+                upstreamErrorMessage(chunk, "Upstream stream error"),
+              ),
+            );
+            break;
+          }
+
+          if (chunk?.usage) {
+            inputTokens = chunk.usage.prompt_tokens ?? inputTokens;
+            outputTokens = chunk.usage.completion_tokens ?? outputTokens;
+          }
+          start(chunk?.id);
+
+          const choice = chunk?.choices?.[0];
+          if (!choice) continue;
+          const delta = choice.delta ?? {};
+
+          const reasoning = delta.reasoning_content ?? delta.reasoning;
+          if (typeof reasoning === "string" && reasoning.length > 0) {
+            if (blockKind !== "thinking") {
+              openBlock("thinking", {
+                type: "thinking",
+                thinking: "",
+                signature: "",
+              });
+            }
+            send("content_block_delta", {
+              index: blockIndex,
+              delta: { type: "thinking_delta", thinking: reasoning },
+            });
+          }
+
+          if (typeof delta.content === "string" && delta.content.length > 0) {
+            if (blockKind !== "text")
+              openBlock("text", { type: "text", text: "" });
+            send("content_block_delta", {
+              index: blockIndex,
+              delta: { type: "text_delta", text: delta.content },
+            });
+          }
+
+          if (Array.isArray(delta.tool_calls)) {
+            for (const tc of delta.tool_calls) {
+              const idx = typeof tc?.index === "number" ? tc.index : 0;
+              if (blockKind !== "tool_use" || toolIndex !== idx) {
+                openBlock("tool_use", {
+                  type: "tool_use",
+                  id: tc?.id || `toolu_${Date.now()}_${idx}`,
+                  name: tc?.function?.name || "unknown_tool",
+                  input: {},
+                });
+                toolIndex = idx;
+              }
+              const args = tc?.function?.arguments;
+              if (typeof args === "string" && args.length > 0) {
+                send("content_block_delta", {
+                  index: blockIndex,
+                  delta: { type: "input_json_delta", partial_json: args },
+                });
+              }
+            }
+          }
+
+          if (choice.finish_reason) {
+            stopReason = finishReasonToAnthropic(choice.finish_reason);
+          }
+        }
+
+        if (failed) return;
+        start(undefined);
+        closeBlock();
+        send("message_delta", {
+          delta: { stop_reason: stopReason, stop_sequence: null },
+          // the usage chunk arrives after message_start went out with 0
+          usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+        });
+        send("message_stop", {});
+      } catch (e) {
+        streamLog.error("❌ Anthropic stream error", { error: e });
+        send("error", anthropicError(500, String(e)));
+      } finally {
+        if (!cancelled.signal.aborted) controller.close();
+      }
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// OPENAI RESPONSES API
+// ══════════════════════════════════════════════════════════════════════════════
+
+function responsesId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function responsesContentToChat(content: any): any {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return content;
+
+  return content
+    .map((part: any) => {
+      if (typeof part === "string") return { type: "text", text: part };
+      if (
+        (part?.type === "input_text" ||
+          part?.type === "output_text" ||
+          part?.type === "text") &&
+        typeof part.text === "string"
+      ) {
+        return { type: "text", text: part.text };
+      }
+      if (part?.type === "refusal" && typeof part.refusal === "string") {
+        return { type: "text", text: part.refusal };
+      }
+      if (part?.type === "input_image") {
+        const url =
+          typeof part.image_url === "string"
+            ? part.image_url
+            : part.image_url?.url;
+        if (typeof url === "string") {
+          return { type: "image_url", image_url: { url } };
+        }
+      }
+      return null;
+    })
+    .filter((part: any) => part !== null);
+}
+
+function responsesToolChoiceToChat(toolChoice: any): any {
+  if (typeof toolChoice === "string") return toolChoice;
+  if (toolChoice?.type === "function" && typeof toolChoice.name === "string") {
+    return { type: "function", function: { name: toolChoice.name } };
+  }
+  return undefined;
+}
+
+// Converts a Responses-API request (`instructions` + `input` items) into a
+// chat-completions body. Function calls are folded into the preceding
+// assistant turn so normalizeChatCompletionsMessages can pair their outputs.
+function responsesToChatCompletions(body: any): any {
+  const messages: any[] = [];
+
+  if (typeof body?.instructions === "string" && body.instructions.trim()) {
+    messages.push({ role: "system", content: body.instructions });
+  }
+
+  const input: any[] =
+    typeof body?.input === "string"
+      ? [{ type: "message", role: "user", content: body.input }]
+      : Array.isArray(body?.input)
+        ? body.input
+        : [];
+
+  let lastAssistant: any = null;
+
+  for (const item of input) {
+    if (!item || typeof item !== "object") continue;
+    const type = item.type ?? (item.role ? "message" : undefined);
+
+    if (type === "message") {
+      const role =
+        item.role === "developer" || item.role === "system"
+          ? "system"
+          : item.role === "assistant"
+            ? "assistant"
+            : "user";
+      const msg: any = { role, content: responsesContentToChat(item.content) };
+      messages.push(msg);
+      lastAssistant = role === "assistant" ? msg : null;
+      continue;
+    }
+
+    if (type === "function_call") {
+      const toolCall = {
+        id: item.call_id ?? item.id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments ?? "{}" },
+      };
+      if (!lastAssistant) {
+        lastAssistant = { role: "assistant", content: "" };
+        messages.push(lastAssistant);
+      }
+      lastAssistant.tool_calls = [
+        ...(lastAssistant.tool_calls ?? []),
+        toolCall,
+      ];
+      continue;
+    }
+
+    if (type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        content: item.output,
+      });
+      lastAssistant = null;
+      continue;
+    }
+
+    // reasoning items and built-in tool calls have no chat equivalent
+  }
+
+  const out: any = { model: body?.model, messages };
+
+  if (typeof body?.max_output_tokens === "number") {
+    out.max_tokens = body.max_output_tokens;
+  }
+  if (typeof body?.temperature === "number") out.temperature = body.temperature;
+  if (typeof body?.top_p === "number") out.top_p = body.top_p;
+  if (body?.stream === true) out.stream = true;
+  if (typeof body?.reasoning?.effort === "string") {
+    out.reasoning_effort = body.reasoning.effort;
+  }
+
+  const format = body?.text?.format;
+  if (format?.type === "json_schema") {
+    out.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: format.name,
+        schema: format.schema,
+        strict: format.strict,
+      },
+    };
+  } else if (format?.type === "json_object") {
+    out.response_format = { type: "json_object" };
+  }
+
+  if (Array.isArray(body?.tools)) {
+    const tools = body.tools
+      .filter((t: any) => t?.type === "function" && typeof t.name === "string")
+      .map((t: any) => ({
+        type: "function",
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters ?? { type: "object", properties: {} },
+        },
+      }));
+    if (tools.length > 0) out.tools = tools;
+  }
+
+  const toolChoice = responsesToolChoiceToChat(body?.tool_choice);
+  if (toolChoice !== undefined) out.tool_choice = toolChoice;
+
+  return out;
+}
+
+function responsesUsage(usage: any): any {
+  if (!usage) return null;
+  const input = usage.prompt_tokens ?? 0;
+  const output = usage.completion_tokens ?? 0;
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    total_tokens: usage.total_tokens ?? input + output,
+  };
+}
+
+function responsesEnvelope(
+  id: string,
+  model: string,
+  request: any,
+  status: string,
+  output: any[],
+  usage: any,
+): any {
+  return {
+    id,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status,
+    model,
+    instructions: request?.instructions ?? null,
+    max_output_tokens: request?.max_output_tokens ?? null,
+    incomplete_details:
+      status === "incomplete" ? { reason: "max_output_tokens" } : null,
+    error: null,
+    output,
+    parallel_tool_calls: request?.parallel_tool_calls ?? true,
+    tool_choice: request?.tool_choice ?? "auto",
+    tools: request?.tools ?? [],
+    usage,
+  };
+}
+
+function chatCompletionToResponses(
+  resp: any,
+  model: string,
+  request: any,
+): any {
+  const choice = resp?.choices?.[0] ?? {};
+  const message = choice.message ?? {};
+  const output: any[] = [];
+
+  const text =
+    typeof message.content === "string"
+      ? message.content
+      : anthropicTextOf(message.content);
+  if (text.length > 0) {
+    output.push({
+      type: "message",
+      id: responsesId("msg"),
+      status: "completed",
+      role: "assistant",
+      content: [{ type: "output_text", text, annotations: [] }],
+    });
+  }
+
+  for (const tc of normalizeToolCalls(message.tool_calls)) {
+    output.push({
+      type: "function_call",
+      id: responsesId("fc"),
+      call_id: tc.id,
+      name: tc.function.name,
+      arguments: tc.function.arguments,
+      status: "completed",
+    });
+  }
+
+  return responsesEnvelope(
+    responsesId("resp"),
+    resp?.model ?? model,
+    request,
+    choice.finish_reason === "length" ? "incomplete" : "completed",
+    output,
+    responsesUsage(resp?.usage),
+  );
+}
+
+// Re-emits an OpenAI chat-completions SSE stream as Responses-API semantic
+// events, ending with response.completed carrying the assembled output.
+function chatStreamToResponsesStream(
+  upstream: ReadableStream<Uint8Array>,
+  model: string,
+  request: any,
+): ReadableStream<Uint8Array> {
+  const streamLog = requestLogger();
+  const encoder = new TextEncoder();
+  const responseId = responsesId("resp");
+  const cancelled = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    cancel(reason) {
+      cancelled.abort(reason);
+    },
+    async start(controller) {
+      let sequence = 0;
+      const send = (type: string, data: any) => {
+        if (cancelled.signal.aborted) return;
+        controller.enqueue(
+          encoder.encode(
+            encodeSseEvent(
+              { type, sequence_number: sequence++, ...data },
+              type,
+            ),
+          ),
+        );
+      };
+
+      const output: any[] = [];
+      let textItem: any = null;
+      const toolItems = new Map<number, any>();
+      let status = "completed";
+      let usage: any = null;
+
+      send("response.created", {
+        response: responsesEnvelope(
+          responseId,
+          model,
+          request,
+          "in_progress",
+          [],
+          null,
+        ),
+      });
+      send("response.in_progress", {
+        response: responsesEnvelope(
+          responseId,
+          model,
+          request,
+          "in_progress",
+          [],
+          null,
+        ),
+      });
+
+      const finishText = () => {
+        if (!textItem) return;
+        const outputIndex = output.indexOf(textItem);
+        const part = textItem.content[0];
+        send("response.output_text.done", {
+          item_id: textItem.id,
+          output_index: outputIndex,
+          content_index: 0,
+          text: part.text,
+        });
+        send("response.content_part.done", {
+          item_id: textItem.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part,
+        });
+        textItem.status = "completed";
+        send("response.output_item.done", {
+          output_index: outputIndex,
+          item: textItem,
+        });
+        textItem = null;
+      };
+
+      const finishTool = (item: any) => {
+        const outputIndex = output.indexOf(item);
+        send("response.function_call_arguments.done", {
+          item_id: item.id,
+          output_index: outputIndex,
+          arguments: item.arguments,
+        });
+        item.status = "completed";
+        send("response.output_item.done", { output_index: outputIndex, item });
+      };
+
+      try {
+        for await (const data of readSseData(upstream, cancelled.signal)) {
+          if (data === "[DONE]") break;
+          let chunk: any;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          if (chunk?.error) throw chunk.error;
+
+          if (chunk?.usage) usage = responsesUsage(chunk.usage);
+
+          const choice = chunk?.choices?.[0];
+          if (!choice) continue;
+          const delta = choice.delta ?? {};
+
+          if (typeof delta.content === "string" && delta.content.length > 0) {
+            if (!textItem) {
+              textItem = {
+                type: "message",
+                id: responsesId("msg"),
+                status: "in_progress",
+                role: "assistant",
+                content: [],
+              };
+              output.push(textItem);
+              const outputIndex = output.length - 1;
+              send("response.output_item.added", {
+                output_index: outputIndex,
+                item: { ...textItem, content: [] },
+              });
+              textItem.content.push({
+                type: "output_text",
+                text: "",
+                annotations: [],
+              });
+              send("response.content_part.added", {
+                item_id: textItem.id,
+                output_index: outputIndex,
+                content_index: 0,
+                part: { type: "output_text", text: "", annotations: [] },
+              });
+            }
+            textItem.content[0].text += delta.content;
+            send("response.output_text.delta", {
+              item_id: textItem.id,
+              output_index: output.indexOf(textItem),
+              content_index: 0,
+              delta: delta.content,
+            });
+          }
+
+          if (Array.isArray(delta.tool_calls)) {
+            for (const tc of delta.tool_calls) {
+              const idx = typeof tc?.index === "number" ? tc.index : 0;
+              let item = toolItems.get(idx);
+              if (!item) {
+                finishText();
+                item = {
+                  type: "function_call",
+                  id: responsesId("fc"),
+                  call_id: tc?.id || responsesId("call"),
+                  name: tc?.function?.name || "unknown_tool",
+                  arguments: "",
+                  status: "in_progress",
+                };
+                toolItems.set(idx, item);
+                output.push(item);
+                send("response.output_item.added", {
+                  output_index: output.length - 1,
+                  item: { ...item },
+                });
+              }
+              const args = tc?.function?.arguments;
+              if (typeof args === "string" && args.length > 0) {
+                item.arguments += args;
+                send("response.function_call_arguments.delta", {
+                  item_id: item.id,
+                  output_index: output.indexOf(item),
+                  delta: args,
+                });
+              }
+            }
+          }
+
+          if (choice.finish_reason === "length") status = "incomplete";
+        }
+
+        finishText();
+        for (const item of toolItems.values()) finishTool(item);
+
+        send(
+          status === "incomplete"
+            ? "response.incomplete"
+            : "response.completed",
+          {
+            response: responsesEnvelope(
+              responseId,
+              model,
+              request,
+              status,
+              output,
+              usage,
+            ),
+          },
+        );
+      } catch (e) {
+        streamLog.error("❌ Responses stream error", { error: e });
+        send("response.failed", {
+          response: {
+            ...responsesEnvelope(
+              responseId,
+              model,
+              request,
+              "failed",
+              output,
+              usage,
+            ),
+            error: {
+              code: (e as any)?.code ?? "server_error",
+              message: (e as any)?.message ?? String(e),
+            },
+          },
+        });
+      } finally {
+        if (!cancelled.signal.aborted) controller.close();
+      }
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// LEGACY COMPLETIONS / FILL-IN-THE-MIDDLE
+// ══════════════════════════════════════════════════════════════════════════════
+
+const FIM_HOLE = "<FILL_HERE>";
+
+const FIM_SYSTEM_PROMPT = `You are a code completion engine. The user sends a file with a single ${FIM_HOLE} marker.
+Reply with ONLY the text that should replace ${FIM_HOLE}.
+Do not repeat code that comes before or after the marker. Do not explain. Do not use markdown code fences.
+If nothing should be inserted, reply with an empty message.`;
+
+const COMPLETION_SYSTEM_PROMPT = `You are a text completion engine. Continue the user's text exactly where it stops.
+Reply with ONLY the continuation. Do not repeat the given text. Do not explain. Do not use markdown code fences.`;
+
+function completionPromptOf(prompt: any): string {
+  if (typeof prompt === "string") return prompt;
+  if (Array.isArray(prompt) && typeof prompt[0] === "string") return prompt[0];
+  return "";
+}
+
+// Turns a /v1/completions request (optionally with a FIM `suffix`) into a
+// chat request asking for the infill only.
+function completionsToChatCompletions(body: any): any {
+  const prefix = completionPromptOf(body?.prompt);
+  const suffix = typeof body?.suffix === "string" ? body.suffix : "";
+  const isFim = suffix.length > 0;
+
+  const out: any = {
+    model: body?.model,
+    messages: [
+      {
+        role: "system",
+        content: isFim ? FIM_SYSTEM_PROMPT : COMPLETION_SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: isFim ? `${prefix}${FIM_HOLE}${suffix}` : prefix,
+      },
+    ],
+  };
+
+  if (typeof body?.max_tokens === "number") out.max_tokens = body.max_tokens;
+  if (typeof body?.temperature === "number") out.temperature = body.temperature;
+  if (typeof body?.top_p === "number") out.top_p = body.top_p;
+  if (body?.stream === true) out.stream = true;
+
+  // Anthropic rejects whitespace-only stop sequences, which autocomplete
+  // clients routinely send ("\n\n")
+  const stops = (Array.isArray(body?.stop) ? body.stop : [body?.stop]).filter(
+    (s: any) => typeof s === "string" && s.trim().length > 0,
+  );
+  if (stops.length > 0) out.stop = stops;
+
+  return out;
+}
+
+// Longest k such that `a` ends with the first k chars of `b`.
+function overlapLength(a: string, b: string, max: number = 500): number {
+  for (let k = Math.min(a.length, b.length, max); k > 0; k--) {
+    if (a.endsWith(b.slice(0, k))) return k;
+  }
+  return 0;
+}
+
+// How much of the infill's start repeats the code before the hole. Short
+// overlaps only count when they cover the whole current line.
+function echoedHeadLength(prefix: string, out: string): number {
+  const currentLine = prefix.slice(prefix.lastIndexOf("\n") + 1).trim();
+  const head = overlapLength(prefix, out);
+  return head >= 8 ||
+    (head > 0 && head >= currentLine.length && currentLine.length > 0)
+    ? head
+    : 0;
+}
+
+// How much of the infill's end repeats the code after the hole.
+function echoedTailLength(suffix: string, out: string): number {
+  const suffixLine = (suffix.split("\n")[0] ?? "").trim();
+  const tail = overlapLength(out, suffix);
+  return tail >= 8 ||
+    (tail > 0 && tail >= suffixLine.length && suffixLine.length > 0)
+    ? tail
+    : 0;
+}
+
+// Chat models like to wrap infills in fences or echo the surrounding code.
+// Strip both so the editor gets only the text for the hole.
+function cleanInfill(text: string, prefix: string, suffix: string): string {
+  let out = text.split(FIM_HOLE).join("");
+
+  const fenced = out.match(/^\s*```[\w.+-]*[^\S\n]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) out = fenced[1] ?? "";
+
+  out = out.slice(echoedHeadLength(prefix, out));
+  return out.slice(0, out.length - echoedTailLength(suffix, out));
+}
+
+const FENCE_OPEN = /^\s*```[\w.+-]*[^\S\n]*\n/;
+const FENCE_OPEN_PENDING = /^\s*(`{1,2}|```[\w.+-]*[^\S\n]*)?$/;
+const FENCE_CLOSE = /\n?```\s*$/;
+const FENCE_CLOSE_PENDING = /\n?(```\s*|`{1,2})?$/;
+
+// cleanInfill for text that arrives in pieces. push() returns the part of the
+// infill that is settled; the start waits until a fence or echoed prefix can
+// be ruled out, and only a tail that may still be an echoed suffix (or the
+// closing fence) is held back. end() returns whatever is left.
+function createInfillCleaner(
+  prefix: string,
+  suffix: string,
+): { push(text: string): string; end(): string } {
+  let text = "";
+  let fenced: boolean | null = null;
+  let fenceLength = 0;
+  // where the infill starts in the text with holes removed, once settled
+  let start: number | null = null;
+  let emitted = 0;
+
+  const take = (final: boolean): string => {
+    // a hole marker split across chunks must not leak out half-removed
+    const partialHole = final ? 0 : overlapLength(text, FIM_HOLE);
+    const seen = text
+      .slice(0, text.length - partialHole)
+      .split(FIM_HOLE)
+      .join("");
+
+    if (fenced === null) {
+      const open = seen.match(FENCE_OPEN);
+      if (open) {
+        fenced = true;
+        fenceLength = open[0].length;
+      } else if (!final && FENCE_OPEN_PENDING.test(seen)) {
+        return "";
+      } else {
+        fenced = false;
+      }
+    }
+
+    if (start === null) {
+      const head = seen.slice(fenceLength);
+      // the echo could still grow while the prefix has room to extend it
+      if (!final && head.length < 500 && prefix.slice(-500).includes(head)) {
+        return "";
+      }
+      start = fenceLength + echoedHeadLength(prefix, head);
+    }
+
+    let out = seen.slice(start);
+    if (final) {
+      if (fenced) out = out.replace(FENCE_CLOSE, "");
+      out = out.slice(0, out.length - echoedTailLength(suffix, out));
+    } else {
+      // at least as much as the final trim could still remove, whether or not
+      // the tail turns out to be a closing fence
+      const unfenced = fenced ? out.replace(FENCE_CLOSE_PENDING, "") : out;
+      const hold = Math.max(
+        overlapLength(out, suffix),
+        out.length - unfenced.length + overlapLength(unfenced, suffix),
+      );
+      out = out.slice(0, out.length - hold);
+    }
+
+    if (out.length <= emitted) return "";
+    const piece = out.slice(emitted);
+    emitted = out.length;
+    return piece;
+  };
+
+  return {
+    push: (chunk) => {
+      text += chunk;
+      return take(false);
+    },
+    end: () => take(true),
+  };
+}
+
+function textCompletion(
+  id: string,
+  model: string,
+  text: string,
+  finishReason: any,
+  usage?: any,
+): any {
+  const out: any = {
+    id,
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }],
+  };
+  if (usage) out.usage = usage;
+  return out;
+}
+
+function chatCompletionToTextCompletion(
+  resp: any,
+  model: string,
+  request: any,
+): any {
+  const choice = resp?.choices?.[0] ?? {};
+  const raw =
+    typeof choice.message?.content === "string"
+      ? choice.message.content
+      : anthropicTextOf(choice.message?.content);
+  const text = cleanInfill(
+    raw,
+    completionPromptOf(request?.prompt),
+    typeof request?.suffix === "string" ? request.suffix : "",
+  );
+
+  return textCompletion(
+    `cmpl-${resp?.id ?? Date.now().toString(36)}`,
+    resp?.model ?? model,
+    text,
+    choice.finish_reason ?? "stop",
+    resp?.usage,
+  );
+}
+
+// Reads an upstream chat-completions SSE stream to the end and returns the
+// assembled assistant text, handing each piece to `onText` as it arrives.
+async function collectChatStreamText(
+  upstream: ReadableStream<Uint8Array>,
+  onText?: (text: string, id: string | null) => void,
+  signal?: AbortSignal,
+): Promise<{ id: string | null; text: string; finishReason: any; usage: any }> {
+  let id: string | null = null;
+  let text = "";
+  let finishReason: any = null;
+  let usage: any = null;
+
+  for await (const data of readSseData(upstream, signal)) {
+    if (data === "[DONE]") break;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    if (chunk?.error) {
+      throw new Error(upstreamErrorMessage(chunk, "Upstream stream error"));
+    }
+    id = id ?? chunk?.id ?? null;
+    if (chunk?.usage) usage = chunk.usage;
+    const choice = chunk?.choices?.[0];
+    if (typeof choice?.delta?.content === "string") {
+      text += choice.delta.content;
+      onText?.(choice.delta.content, id);
+    }
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+  }
+
+  return { id, text, finishReason, usage };
+}
+
+// Text goes out as text_completion chunks as it arrives; the cleaner holds
+// back only what may still be trimmed as an echo or a fence.
+function chatStreamToTextCompletionStream(
+  upstream: ReadableStream<Uint8Array>,
+  model: string,
+  request: any,
+): ReadableStream<Uint8Array> {
+  const streamLog = requestLogger();
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    cancel(reason) {
+      cancelled.abort(reason);
+    },
+    async start(controller) {
+      const send = (data: unknown) => {
+        if (!cancelled.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeSseEvent(data)));
+        }
+      };
+      const cleaner = createInfillCleaner(
+        completionPromptOf(request?.prompt),
+        typeof request?.suffix === "string" ? request.suffix : "",
+      );
+      let id: string | null = null;
+      const emit = (text: string) => {
+        if (text.length > 0 && id) send(textCompletion(id, model, text, null));
+      };
+
+      try {
+        const collected = await collectChatStreamText(
+          upstream,
+          (text, chunkId) => {
+            id ??= `cmpl-${chunkId ?? Date.now().toString(36)}`;
+            emit(cleaner.push(text));
+          },
+          cancelled.signal,
+        );
+        id ??= `cmpl-${collected.id ?? Date.now().toString(36)}`;
+        emit(cleaner.end());
+        send(
+          textCompletion(
+            id,
+            model,
+            "",
+            collected.finishReason ?? "stop",
+            collected.usage,
+          ),
+        );
+      } catch (e) {
+        streamLog.error("❌ Completion stream error", { error: e });
+        send({ error: { message: String(e), type: "server_error" } });
+      } finally {
+        send("[DONE]");
+        if (!cancelled.signal.aborted) controller.close();
+      }
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// API KEY POOL
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type KeySelection = "round-robin" | "least-throttled";
+
+type PooledKey = {
+  key: string;
+  dead: boolean;
+  cooldownUntil: number;
+  lastThrottledAt: number;
+  lastUsedAt: number;
+  requests: number;
+  throttles: number;
+  lastStatus: number | null;
+};
+
+type KeyPool = {
+  pick(strategy: KeySelection): string;
+  // true when a key other than `key` could take the next attempt right away
+  hasAlternative(key: string): boolean;
+  report(key: string, status: number, retryAfterMs: number | null): void;
+  snapshot(): any[];
+};
+
+// Never print more than the last four characters of a key
+function maskApiKey(key: string): string {
+  return key.length > 8 ? `…${key.slice(-4)}` : "…";
+}
+
+function createKeyPool(
+  keys: string[],
+  defaultCooldownMs: () => number,
+): KeyPool {
+  const entries: PooledKey[] = [...new Set(keys)].map((key) => ({
+    key,
+    dead: false,
+    cooldownUntil: 0,
+    lastThrottledAt: 0,
+    lastUsedAt: 0,
+    requests: 0,
+    throttles: 0,
+    lastStatus: null,
+  }));
+  let cursor = 0;
+
+  const usable = (e: PooledKey, now: number) =>
+    !e.dead && e.cooldownUntil <= now;
+
+  function choose(strategy: KeySelection): PooledKey {
+    const now = Date.now();
+    const ready = entries.filter((e) => usable(e, now));
+
+    if (ready.length === 0) {
+      // Everything is cooling down or dead: use the key that frees up first,
+      // and only send a dead key when nothing else is left
+      const alive = entries.filter((e) => !e.dead);
+      const pool = alive.length > 0 ? alive : entries;
+      return pool.reduce((a, b) => (b.cooldownUntil < a.cooldownUntil ? b : a));
+    }
+
+    if (strategy === "least-throttled") {
+      return ready.reduce((a, b) =>
+        b.lastThrottledAt < a.lastThrottledAt ||
+        (b.lastThrottledAt === a.lastThrottledAt && b.lastUsedAt < a.lastUsedAt)
+          ? b
+          : a,
+      );
+    }
+
+    for (let i = 0; i < entries.length; i++) {
+      const e = entries[(cursor + i) % entries.length]!;
+      if (usable(e, now)) {
+        cursor = (entries.indexOf(e) + 1) % entries.length;
+        return e;
+      }
+    }
+    return ready[0]!;
+  }
+
+  return {
+    pick(strategy) {
+      const e = choose(strategy);
+      e.lastUsedAt = Date.now();
+      e.requests++;
+      return e.key;
+    },
+
+    hasAlternative(key) {
+      const now = Date.now();
+      return entries.some((e) => e.key !== key && usable(e, now));
+    },
+
+    report(key, status, retryAfterMs) {
+      const e = entries.find((x) => x.key === key);
+      if (!e) return;
+      e.lastStatus = status;
+      if (status === 401) {
+        if (!e.dead)
+          log.error(`🔑 Key ${maskApiKey(key)} rejected (401), marked dead`);
+        e.dead = true;
+      } else if (status === 429) {
+        const cooldownMs = retryAfterMs ?? defaultCooldownMs();
+        e.throttles++;
+        e.lastThrottledAt = Date.now();
+        e.cooldownUntil = Date.now() + cooldownMs;
+        log.warn(
+          `🔑 Key ${maskApiKey(key)} throttled, cooling down ${cooldownMs}ms`,
+        );
+      }
+    },
+
+    snapshot() {
+      const now = Date.now();
+      return entries.map((e) => ({
+        key: maskApiKey(e.key),
+        status: e.dead ? "dead" : e.cooldownUntil > now ? "cooldown" : "ok",
+        cooldownRemainingMs: Math.max(0, e.cooldownUntil - now),
+        requests: e.requests,
+        throttles: e.throttles,
+        lastStatus: e.lastStatus,
+        lastUsedAt: e.lastUsedAt ? new Date(e.lastUsedAt).toISOString() : null,
+      }));
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// CLIENT KEYS
+// ══════════════════════════════════════════════════════════════════════════════
+
+// A local key handed to one client (an editor, a teammate, a CI job). Only
+// its hash is stored; the key itself is shown once, when it is created.
+export type ClientKey = {
+  id: string;
+  // names the client in logs, usage stats and budgets
+  label: string;
+  keyHash: string;
+  // DO key sent upstream for this client; null uses the proxy's key pool
+  upstreamKey: string | null;
+  // model ids, globs or /regex/; empty allows every model
+  models: string[];
+  // may purge the cache, read the debug endpoints and everyone's /stats
+  admin: boolean;
+  createdAt: string;
+};
+
+// A stored key with its model allowlist compiled once, when the store is read
+type KnownClient = ClientKey & { allowsModel(model: string): boolean };
+
+type ClientKeyStore = {
+  // true when requests must carry a known key
+  enforced(required: boolean): boolean;
+  lookup(key: string): KnownClient | null;
+};
+
+function hashClientKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// The key a client sent, as `Authorization: Bearer` (OpenAI) or `x-api-key`
+// (Anthropic)
+function requestApiKey(req: Request): string | null {
+  return (
+    req.headers.get("x-api-key") ??
+    req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ??
+    null
+  );
+}
+
+export function readClientKeys(path: string): ClientKey[] {
+  if (!existsSync(path)) return [];
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed?.keys)) {
+    throw new Error(`${path}: expected { "keys": [...] }`);
+  }
+  return parsed.keys;
+}
+
+// Holds upstream keys, so only the owner may read it
+function writeClientKeys(path: string, keys: ClientKey[]): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ keys }, null, 2) + "\n", {
+    mode: 0o600,
+  });
+  chmodSync(path, 0o600);
+}
+
+// Returns the new key in clear; it cannot be recovered from the store later
+export function addClientKey(
+  path: string,
+  opts: {
+    label: string;
+    upstreamKey?: string | null;
+    models?: string[];
+    admin?: boolean;
+  },
+): { key: string; client: ClientKey } {
+  const keys = readClientKeys(path);
+  compileModelAllowlist(opts.models ?? []);
+  if (keys.some((k) => k.label === opts.label)) {
+    throw new Error(`a client labelled "${opts.label}" already exists`);
+  }
+  const key = `sk-proxy-${randomBytes(24).toString("base64url")}`;
+  const client: ClientKey = {
+    id: `ck_${randomBytes(4).toString("hex")}`,
+    label: opts.label,
+    keyHash: hashClientKey(key),
+    upstreamKey: opts.upstreamKey || null,
+    models: opts.models ?? [],
+    admin: opts.admin ?? false,
+    createdAt: new Date().toISOString(),
+  };
+  writeClientKeys(path, [...keys, client]);
+  return { key, client };
+}
+
+export function removeClientKey(
+  path: string,
+  idOrLabel: string,
+): ClientKey | null {
+  const keys = readClientKeys(path);
+  const client = keys.find((k) => k.id === idOrLabel || k.label === idOrLabel);
+  if (client)
+    writeClientKeys(
+      path,
+      keys.filter((k) => k !== client),
+    );
+  return client ?? null;
+}
+
+// Throws on a pattern that is neither a model id, a glob nor a valid /regex/
+function compileModelAllowlist(patterns: string[]): (model: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    try {
+      return compileModelPattern(pattern) ?? pattern;
+    } catch (e) {
+      throw new Error(
+        `invalid model pattern ${pattern}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  });
+  return (model) =>
+    matchers.length === 0 ||
+    matchers.some((m) => (typeof m === "string" ? m === model : m.test(model)));
+}
+
+// A key whose allowlist no longer compiles stays known but may use no model,
+// so a hand-edited typo fails closed with a 403 rather than a 500
+function knownClient(client: ClientKey): KnownClient {
+  try {
+    return { ...client, allowsModel: compileModelAllowlist(client.models) };
+  } catch (e) {
+    log.error(`🔐 Client ${client.label}: ${(e as Error).message}`);
+    return { ...client, allowsModel: () => false };
+  }
+}
+
+// Re-read whenever the file changes, so `clients add/remove` apply to a
+// running proxy. A store that cannot be read keeps auth on with the keys last
+// loaded rather than letting everyone in.
+function createClientKeyStore(path: () => string): ClientKeyStore {
+  let loaded: {
+    path: string;
+    mtimeMs: number;
+    byHash: Map<string, KnownClient>;
+    broken: boolean;
+  } | null = null;
+
+  function load() {
+    const file = path();
+    const mtimeMs = existsSync(file) ? statSync(file).mtimeMs : -1;
+    if (loaded?.path === file && loaded.mtimeMs === mtimeMs) return loaded;
+    try {
+      const keys = readClientKeys(file);
+      loaded = {
+        path: file,
+        mtimeMs,
+        byHash: new Map(keys.map((k) => [k.keyHash, knownClient(k)])),
+        broken: false,
+      };
+    } catch (e) {
+      log.error(`🔐 Client key store ${file} unreadable`, { error: e });
+      loaded = {
+        path: file,
+        mtimeMs,
+        byHash: loaded?.byHash ?? new Map(),
+        broken: true,
+      };
+    }
+    return loaded;
+  }
+
+  return {
+    enforced(required) {
+      const store = load();
+      return required || store.broken || store.byHash.size > 0;
+    },
+
+    lookup(key) {
+      return load().byHash.get(hashClientKey(key)) ?? null;
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// UPSTREAMS
+// ══════════════════════════════════════════════════════════════════════════════
+
+// Extra OpenAI-compatible backends; DO inference is always the default
+export type UpstreamConfig = {
+  baseUrl: string;
+  // a literal key, or the name of the env var holding it
+  apiKey?: string;
+  apiKeyEnv?: string;
+  // provider adapter for every model on this backend (default: by model id)
+  adapter?: ProviderFamily;
+  // model ids starting with one of these are routed here
+  prefixes: string[];
+  // exact model ids routed here
+  models: string[];
+  // send `llama3.1` upstream for `ollama/llama3.1`, and list it prefixed
+  stripPrefix: boolean;
+};
+
+const DEFAULT_UPSTREAM = "digitalocean";
+
+type UpstreamRoute = {
+  name: string;
+  // null for the default DO upstream, whose URL and key pool live in the handler
+  upstream: UpstreamConfig | null;
+  // the id the backend knows the model by
+  model: string | undefined;
+};
+
+// Exact `models` entries win over prefixes, and longer prefixes over shorter
+function routeModel(
+  model: string | undefined,
+  settings: ProxySettings,
+): UpstreamRoute {
+  const fallback = { name: DEFAULT_UPSTREAM, upstream: null, model };
+  if (typeof model !== "string") return fallback;
+
+  const entries = Object.entries(settings.upstreams);
+  for (const [name, upstream] of entries) {
+    if (upstream.models.includes(model)) return { name, upstream, model };
+  }
+
+  let best: { name: string; upstream: UpstreamConfig; prefix: string } | null =
+    null;
+  for (const [name, upstream] of entries) {
+    for (const prefix of upstream.prefixes) {
+      if (
+        model.startsWith(prefix) &&
+        prefix.length > (best?.prefix.length ?? -1)
+      ) {
+        best = { name, upstream, prefix };
+      }
+    }
+  }
+  if (!best) return fallback;
+
+  return {
+    name: best.name,
+    upstream: best.upstream,
+    model: best.upstream.stripPrefix ? model.slice(best.prefix.length) : model,
+  };
+}
+
+function upstreamApiKey(upstream: UpstreamConfig): string | null {
+  if (upstream.apiKey) return upstream.apiKey;
+  if (upstream.apiKeyEnv) return process.env[upstream.apiKeyEnv] || null;
+  return null;
+}
+
+// One backend's entries for the merged /v1/models list
+async function listUpstreamModels(
+  name: string,
+  upstream: UpstreamConfig,
+  timeoutMs: number,
+): Promise<any[]> {
+  const remote = await fetchDoModels(
+    upstream.baseUrl,
+    upstreamApiKey(upstream),
+    timeoutMs,
+  );
+  const models =
+    remote ?? upstream.models.map((id) => ({ id, object: "model" }));
+  const prefix = upstream.stripPrefix ? (upstream.prefixes[0] ?? "") : "";
+  return models.map((m: any) => ({
+    ...m,
+    id: m.id.startsWith(prefix) ? m.id : `${prefix}${m.id}`,
+    upstream: name,
+  }));
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// CIRCUIT BREAKER
+// ══════════════════════════════════════════════════════════════════════════════
+
+type CircuitState = "closed" | "open" | "half_open";
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+};
+
+class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly retryInMs: number,
+  ) {
+    super(
+      `${circuit} is temporarily unavailable after repeated upstream failures; retry in ${Math.ceil(retryInMs / 1000)}s`,
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+// One breaker per "upstream/model". Opens after `failureThreshold` consecutive
+// failures, fails fast for `openMs`, then lets `halfOpenProbes` requests
+// through: a success closes it again, a failure re-opens it.
+function createCircuitBreakers(policy: () => ProxySettings["circuitBreaker"]) {
+  const circuits = new Map<string, Circuit>();
+
+  const get = (key: string): Circuit => {
+    let c = circuits.get(key);
+    if (!c) {
+      c = { state: "closed", failures: 0, openedAt: 0, probes: 0 };
+      circuits.set(key, c);
+    }
+    return c;
+  };
+
+  return {
+    // Throws CircuitOpenError when the request must not go upstream
+    acquire(key: string): void {
+      const { failureThreshold, openMs, halfOpenProbes } = policy();
+      if (failureThreshold === 0) return;
+      const c = get(key);
+
+      if (c.state === "open") {
+        const retryInMs = c.openedAt + openMs - Date.now();
+        if (retryInMs > 0) throw new CircuitOpenError(key, retryInMs);
+        c.state = "half_open";
+        c.probes = 0;
+        log.info(`🔌 Circuit ${key} half-open, probing`);
+      }
+      if (c.state === "half_open") {
+        if (c.probes >= halfOpenProbes) throw new CircuitOpenError(key, openMs);
+        c.probes++;
+      }
+    },
+
+    // `null` releases a probe whose outcome is unknown (client went away)
+    record(key: string, ok: boolean | null): void {
+      const { failureThreshold } = policy();
+      const c = circuits.get(key);
+      if (!c || failureThreshold === 0) return;
+      if (c.state === "half_open") c.probes = Math.max(0, c.probes - 1);
+      if (ok === null) return;
+
+      if (ok) {
+        if (c.state !== "closed") log.info(`🔌 Circuit ${key} closed`);
+        c.state = "closed";
+        c.failures = 0;
+        return;
+      }
+
+      c.failures++;
+      if (c.state === "half_open" || c.failures >= failureThreshold) {
+        if (c.state !== "open") {
+          log.warn(`🔌 Circuit ${key} open after ${c.failures} failures`);
+        }
+        c.state = "open";
+        c.openedAt = Date.now();
+      }
+    },
+
+    snapshot(): any[] {
+      const { openMs } = policy();
+      return [...circuits.entries()].map(([key, c]) => ({
+        circuit: key,
+        state: c.state,
+        consecutiveFailures: c.failures,
+        retryInMs:
+          c.state === "open"
+            ? Math.max(0, c.openedAt + openMs - Date.now())
+            : 0,
+      }));
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// RESPONSE CACHE
+// ══════════════════════════════════════════════════════════════════════════════
+
+type CachePolicy = {
+  enabled: boolean;
+  dir: string;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+};
+
+// JSON with object keys sorted, so equal bodies hash equally
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((k) => value[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Streaming and buffered requests share entries, so the stream flags are not
+// part of the key
+function responseCacheKey(upstream: string, path: string, body: any): string {
+  const { stream, stream_options, ...rest } = body;
+  return createHash("sha256")
+    .update(canonicalJson({ upstream, path, body: rest }))
+    .digest("hex");
+}
+
+// Rebuilds a chat completion from an assembled stream so streamed and
+// buffered responses are cached in the same shape
+function assembledToChatCompletion(a: AssembledStream): any {
+  const message: any = { role: "assistant", content: a.content };
+  if (a.reasoning) message.reasoning_content = a.reasoning;
+  if (a.toolCalls.length > 0) message.tool_calls = a.toolCalls;
+  return {
+    id: a.id ?? `chatcmpl-${Date.now().toString(36)}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: a.model,
+    choices: [{ index: 0, message, finish_reason: a.finishReason }],
+    ...(a.usage ? { usage: a.usage } : {}),
+  };
+}
+
+// Only files named like `name`, so a directory shared with other files (or
+// pointed at the project itself) never loses anything the proxy didn't write
+function jsonFilesIn(dir: string, name: RegExp) {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => name.test(f))
+    .map((f) => {
+      const path = join(dir, f);
+      const { mtimeMs, size } = statSync(path);
+      return { path, mtimeMs, size };
+    });
+}
+
+// Drops expired files, then the oldest ones past the count or size limit
+function pruneJsonFiles(
+  dir: string,
+  name: RegExp,
+  limits: { ttlMs?: number; maxEntries: number; maxBytes: number },
+): void {
+  const now = Date.now();
+  const live = jsonFilesIn(dir, name)
+    .filter((e) => {
+      if (limits.ttlMs === undefined || now - e.mtimeMs <= limits.ttlMs) {
+        return true;
+      }
+      rmSync(e.path, { force: true });
+      return false;
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  let bytes = 0;
+  live.forEach((e, i) => {
+    bytes += e.size;
+    if (i >= limits.maxEntries || bytes > limits.maxBytes) {
+      rmSync(e.path, { force: true });
+    }
+  });
+}
+
+// `<responseCacheKey>.json`
+const CACHE_FILE_NAME = /^[0-9a-f]{64}\.json$/;
+
+// One JSON file per entry under `dir`. Expired entries are dropped on read;
+// count and size limits evict the oldest entries after each write.
+function createResponseCache(policy: () => CachePolicy) {
+  const fileFor = (key: string) => join(policy().dir, `${key}.json`);
+
+  return {
+    get(key: string): any | null {
+      const path = fileFor(key);
+      try {
+        if (Date.now() - statSync(path).mtimeMs > policy().ttlMs) {
+          rmSync(path, { force: true });
+          return null;
+        }
+        return JSON.parse(readFileSync(path, "utf8")).response ?? null;
+      } catch {
+        return null;
+      }
+    },
+
+    put(key: string, response: any): void {
+      if (!response?.choices?.[0]?.finish_reason) return;
+      try {
+        mkdirSync(policy().dir, { recursive: true });
+        writeFileSync(
+          fileFor(key),
+          JSON.stringify({ createdAt: new Date().toISOString(), response }),
+        );
+        pruneJsonFiles(policy().dir, CACHE_FILE_NAME, policy());
+      } catch (e) {
+        log.warn("⚠️  Response cache write failed", { error: e });
+      }
+    },
+
+    purge(): number {
+      const all = jsonFilesIn(policy().dir, CACHE_FILE_NAME);
+      for (const e of all) rmSync(e.path, { force: true });
+      return all.length;
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// DEBUG CAPTURE
+// ══════════════════════════════════════════════════════════════════════════════
+
+type CapturePolicy = {
+  enabled: boolean;
+  dir: string;
+  fileMode: number;
+  maxFiles: number;
+  maxBytes: number;
+  // also capture requests the upstream answered successfully
+  successes: boolean;
+  redact: boolean;
+  // extra regexes, on top of SECRET_PATTERNS
+  redactPatterns: string[];
+};
+
+// `<time>-<request id>-<status>.json`, as written by writeDebugCapture
+const CAPTURE_FILE_NAME = /^\d+-[\w.:-]+-\d{3}\.json$/;
+
+// Credentials that tend to end up in chat: pasted .env files, keys in code
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bBearer\s+[A-Za-z0-9._~+\/-]{8,}=*/g,
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{16,}/g,
+  /\bdo[opr]_v1_[a-f0-9]{64}\b/g,
+  /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+];
+
+const SECRET_HEADERS = new Set([
+  "authorization",
+  "x-api-key",
+  "cookie",
+  "set-cookie",
+  "proxy-authorization",
+]);
+
+// Applied to the serialised capture, so secrets are caught wherever they
+// sit; `literals` are the proxy's own upstream keys
+function redactSecrets(
+  text: string,
+  patterns: string[],
+  literals: string[],
+): string {
+  let out = text;
+  for (const secret of literals) {
+    if (secret.length >= 8) out = out.split(secret).join("[REDACTED]");
+  }
+  for (const re of [
+    ...SECRET_PATTERNS,
+    ...patterns.map((p) => new RegExp(p, "g")),
+  ]) {
+    out = out.replace(re, "[REDACTED]");
+  }
+  return out;
+}
+
+function capturedHeaders(headers: Headers | null, redact: boolean) {
+  if (!headers) return null;
+  return Object.fromEntries(
+    [...headers].map(([k, v]) => [
+      k,
+      redact && SECRET_HEADERS.has(k.toLowerCase()) ? "[REDACTED]" : v,
+    ]),
+  );
+}
+
+// Parsed when it is JSON, so the file reads as one document
+function capturedBody(text: string | null): unknown {
+  if (text === null || text === "") return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+type DebugCapture = {
+  requestId: string;
+  method: string;
+  path: string;
+  model: string | null;
+  // what the client sent, before any translation or normalisation
+  request: { headers: Headers; body: string | null };
+  // what went upstream
+  upstreamRequest: unknown;
+  response: { status: number; headers: Headers | null; body: unknown };
+};
+
+// Writes one exchange to its own file under `policy.dir` and rotates the
+// directory. Returns the file, or null when nothing was written.
+function writeDebugCapture(
+  policy: CapturePolicy,
+  capture: DebugCapture,
+  secrets: string[],
+): string | null {
+  if (!policy.enabled) return null;
+  if (capture.response.status < 400 && !policy.successes) return null;
+
+  const record = {
+    capturedAt: new Date().toISOString(),
+    requestId: capture.requestId,
+    method: capture.method,
+    path: capture.path,
+    model: capture.model,
+    request: {
+      headers: capturedHeaders(capture.request.headers, policy.redact),
+      body: capturedBody(capture.request.body),
+    },
+    upstreamRequest: capture.upstreamRequest,
+    response: {
+      status: capture.response.status,
+      headers: capturedHeaders(capture.response.headers, policy.redact),
+      body: capture.response.body,
+    },
+  };
+  const json = JSON.stringify(record, null, 2);
+  const file = join(
+    policy.dir,
+    `${Date.now()}-${capture.requestId}-${capture.response.status}.json`,
+  );
+  try {
+    mkdirSync(policy.dir, { recursive: true, mode: 0o700 });
+    writeFileSync(
+      file,
+      policy.redact
+        ? redactSecrets(json, policy.redactPatterns, secrets)
+        : json,
+      { mode: policy.fileMode },
+    );
+    pruneJsonFiles(policy.dir, CAPTURE_FILE_NAME, {
+      maxEntries: policy.maxFiles,
+      maxBytes: policy.maxBytes,
+    });
+    return file;
+  } catch (e) {
+    log.warn("⚠️  Debug capture failed", { error: e });
+    return null;
+  }
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// CASSETTES
+// ══════════════════════════════════════════════════════════════════════════════
+
+type CassetteMode = "off" | "record" | "replay";
+type CassetteMatchField =
+  "method" | "path" | "model" | "stream" | "messages" | "body";
+
+type CassettePolicy = {
+  mode: CassetteMode;
+  dir: string;
+  // request fields a cassette must share with a request to answer it
+  match: CassetteMatchField[];
+  // replay SSE chunks with their recorded delays, or all at once
+  replayTiming: boolean;
+};
+
+const CASSETTE_MODES: CassetteMode[] = ["off", "record", "replay"];
+const CASSETTE_MATCH_FIELDS: CassetteMatchField[] = [
+  "method",
+  "path",
+  "model",
+  "stream",
+  "messages",
+  "body",
+];
+const DEFAULT_CASSETTE_MATCH: CassetteMatchField[] = [
+  "method",
+  "path",
+  "model",
+  "stream",
+  "messages",
+];
+
+type CassetteRequest = Record<CassetteMatchField, string>;
+
+type Cassette = {
+  recordedAt: string;
+  request: CassetteRequest & { bodyJson: unknown };
+  response: {
+    status: number;
+    headers: Record<string, string> | null;
+    // time to response headers
+    latencyMs: number;
+    // body pieces as received, each with the delay since the previous one
+    chunks: { delayMs: number; data: string }[];
+  };
+};
+
+class CassetteMissError extends Error {
+  constructor(
+    readonly request: CassetteRequest,
+    readonly policy: CassettePolicy,
+  ) {
+    super(
+      `No cassette in ${policy.dir} matches ${policy.match
+        .map((f) => `${f}=${request[f]}`)
+        .join(" ")}; record one with cassettes.mode "record"`,
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+const shortHash = (value: string) =>
+  createHash("sha256").update(value).digest("hex").slice(0, 16);
+
+// The fields cassettes are matched on. Messages are hashed as sent upstream,
+// i.e. after normalisation; `body` covers everything but the stream flags.
+function cassetteRequest(
+  url: string,
+  init: RequestInit,
+): CassetteRequest & {
+  bodyJson: unknown;
+} {
+  let body: any = null;
+  try {
+    body = typeof init.body === "string" ? JSON.parse(init.body) : null;
+  } catch {}
+  return {
+    method: (init.method ?? "GET").toUpperCase(),
+    path: new URL(url).pathname,
+    model: String(body?.model ?? ""),
+    stream: String(body?.stream === true),
+    messages: shortHash(canonicalJson(body?.messages ?? null)),
+    body:
+      body && typeof body === "object"
+        ? responseCacheKey("", "", body).slice(0, 16)
+        : shortHash(String(init.body ?? "")),
+    bodyJson: body,
+  };
+}
+
+// Wraps `fetch` for fetchWithRetry. "record" saves every upstream exchange
+// once its body has been read to the end, redacted like debug captures;
+// "replay" never reaches the network and answers from the newest cassette
+// matching `match`.
+function createCassettes(
+  policyFn: () => CassettePolicy,
+  // the proxy's own keys, redacted wherever they turn up
+  secrets: () => string[] = () => [],
+) {
+  const fileFor = (policy: CassettePolicy, request: CassetteRequest) =>
+    join(
+      policy.dir,
+      `${request.model.replace(/[^\w.-]+/g, "_") || "request"}-${shortHash(
+        CASSETTE_MATCH_FIELDS.map((f) => request[f]).join("|"),
+      )}.json`,
+    );
+
+  const find = (policy: CassettePolicy, request: CassetteRequest) => {
+    const matches = jsonFilesIn(policy.dir, /\.json$/)
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)
+      .map((f) => {
+        try {
+          return JSON.parse(readFileSync(f.path, "utf8")) as Cassette;
+        } catch {
+          return null;
+        }
+      });
+    return (
+      matches.find(
+        (c) => c && policy.match.every((f) => c.request?.[f] === request[f]),
+      ) ?? null
+    );
+  };
+
+  const replay = (
+    cassette: Cassette,
+    timing: boolean,
+    signal?: AbortSignal,
+  ): Response => {
+    const encoder = new TextEncoder();
+    const { status, headers, chunks } = cassette.response;
+    // stops on a cancelled body as well as on the request's own signal
+    const stopped = new AbortController();
+    const halt = signal
+      ? AbortSignal.any([signal, stopped.signal])
+      : stopped.signal;
+    const body = new ReadableStream<Uint8Array>({
+      cancel(reason) {
+        stopped.abort(reason);
+      },
+      async start(controller) {
+        try {
+          for (const chunk of chunks) {
+            if (timing && chunk.delayMs > 0) await sleep(chunk.delayMs, halt);
+            controller.enqueue(encoder.encode(chunk.data));
+          }
+          controller.close();
+        } catch (e) {
+          if (!stopped.signal.aborted) controller.error(e);
+        }
+      },
+    });
+    return new Response(status === 204 ? null : body, {
+      status,
+      headers: headers ?? {},
+    });
+  };
+
+  const record = (
+    policy: CassettePolicy,
+    request: CassetteRequest & { bodyJson: unknown },
+    res: Response,
+    latencyMs: number,
+  ): Response => {
+    const chunks: Cassette["response"]["chunks"] = [];
+    const save = () => {
+      const cassette: Cassette = {
+        recordedAt: new Date().toISOString(),
+        request,
+        response: {
+          status: res.status,
+          headers: capturedHeaders(res.headers, true),
+          latencyMs,
+          chunks,
+        },
+      };
+      const capture = getProxySettings().debugCapture;
+      const json = JSON.stringify(cassette, null, 2);
+      try {
+        mkdirSync(policy.dir, { recursive: true });
+        const file = fileFor(policy, request);
+        writeFileSync(
+          file,
+          capture.redact
+            ? redactSecrets(json, capture.redactPatterns, secrets())
+            : json,
+        );
+        log.info(`📼 Recorded ${request.method} ${request.path} → ${file}`);
+      } catch (e) {
+        log.warn("⚠️  Cassette write failed", { error: e });
+      }
+    };
+    if (!res.body) {
+      save();
+      return res;
+    }
+
+    const decoder = new TextDecoder();
+    let last = performance.now();
+    const body = res.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          const now = performance.now();
+          chunks.push({
+            delayMs: Math.round(now - last),
+            data: decoder.decode(chunk, { stream: true }),
+          });
+          last = now;
+          controller.enqueue(chunk);
+        },
+        // a body cut short by a cancel is never saved
+        flush: save,
+      }),
+    );
+    return new Response(body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+  };
+
+  return {
+    async fetch(url: string, init: RequestInit): Promise<Response> {
+      const policy = policyFn();
+      if (policy.mode === "off") return fetch(url, init);
+
+      const request = cassetteRequest(url, init);
+      if (policy.mode === "replay") {
+        const cassette = find(policy, request);
+        if (!cassette) throw new CassetteMissError(request, policy);
+        log.info(
+          `📼 Replaying ${request.method} ${request.path} (${request.model})`,
+        );
+        if (policy.replayTiming && cassette.response.latencyMs > 0) {
+          await sleep(cassette.response.latencyMs, init.signal ?? undefined);
+        }
+        return replay(cassette, policy.replayTiming, init.signal ?? undefined);
+      }
+
+      const startedAt = performance.now();
+      const res = await fetch(url, init);
+      return record(
+        policy,
+        request,
+        res,
+        Math.round(performance.now() - startedAt),
+      );
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// USAGE ACCOUNTING
+// ══════════════════════════════════════════════════════════════════════════════
+
+type UsageRecord = {
+  model: string;
+  route: string;
+  client: string;
+  status: number;
+  stream: boolean;
+  latencyMs: number;
+  ttftMs: number | null;
+  promptTokens: number;
+  completionTokens: number;
+  // true when the upstream sent no usage and tokens were estimated
+  estimated: boolean;
+  costUsd: number;
+};
+
+const USAGE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ts TEXT NOT NULL,
+    day TEXT NOT NULL,
+    model TEXT NOT NULL,
+    route TEXT NOT NULL,
+    client TEXT NOT NULL,
+    status INTEGER NOT NULL,
+    stream INTEGER NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    ttft_ms INTEGER,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    estimated INTEGER NOT NULL,
+    cost_usd REAL NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS usage_day_model ON usage (day, model);
+`;
+
+// Rough token count (~4 characters per token) for upstreams that report none
+function estimateTokens(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (Array.isArray(value)) {
+    return value.reduce((n: number, v) => n + estimateTokens(v), 0);
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return Math.ceil(text.length / 4);
+}
+
+// Who sent an unauthenticated request: an explicit X-Proxy-Client name, else
+// the masked key it came with. Clients in the key store go by their label.
+function clientIdOf(req: Request): string {
+  const named = req.headers.get("x-proxy-client");
+  if (named) return named;
+  const key = requestApiKey(req);
+  return key ? maskApiKey(key) : "anonymous";
+}
+
+// Opened on first use and shared by every handler writing to the same file
+const usageDatabases = new Map<string, Database>();
+
+function openUsageDatabase(path: string): Database {
+  let db = usageDatabases.get(path);
+  if (!db) {
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+    db = new Database(path, { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec(USAGE_SCHEMA);
+    // databases created before cost tracking
+    const columns = db.query("PRAGMA table_info(usage)").all() as any[];
+    if (!columns.some((c) => c.name === "cost_usd")) {
+      db.exec("ALTER TABLE usage ADD COLUMN cost_usd REAL NOT NULL DEFAULT 0");
+    }
+    usageDatabases.set(path, db);
+  }
+  return db;
+}
+
+function recordUsage(policy: ProxySettings["usage"], rec: UsageRecord): void {
+  if (!policy.enabled) return;
+  try {
+    const now = new Date();
+    openUsageDatabase(policy.dbPath)
+      .query(
+        `INSERT INTO usage (ts, day, model, route, client, status, stream,
+           latency_ms, ttft_ms, prompt_tokens, completion_tokens, estimated,
+           cost_usd)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        now.toISOString(),
+        now.toISOString().slice(0, 10),
+        rec.model,
+        rec.route,
+        rec.client,
+        rec.status,
+        rec.stream ? 1 : 0,
+        rec.latencyMs,
+        rec.ttftMs,
+        rec.promptTokens,
+        rec.completionTokens,
+        rec.estimated ? 1 : 0,
+        rec.costUsd,
+      );
+  } catch (e) {
+    log.warn("⚠️  Usage record failed", { error: e });
+  }
+}
+
+// Per-day, per-model totals for the last `days` days, newest first,
+// optionally for one client only
+function usageStats(
+  policy: ProxySettings["usage"],
+  days: number,
+  client?: string,
+): any[] {
+  const since = new Date(Date.now() - (days - 1) * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+  return openUsageDatabase(policy.dbPath)
+    .query(
+      `SELECT day, model,
+         COUNT(*) AS requests,
+         SUM(status >= 400) AS errors,
+         SUM(prompt_tokens) AS prompt_tokens,
+         SUM(completion_tokens) AS completion_tokens,
+         SUM(prompt_tokens + completion_tokens) AS total_tokens,
+         SUM(estimated) AS estimated_requests,
+         ROUND(SUM(cost_usd), 4) AS cost_usd,
+         CAST(ROUND(AVG(latency_ms)) AS INTEGER) AS avg_latency_ms
+       FROM usage
+       WHERE day >= ? AND (? IS NULL OR client = ?)
+       GROUP BY day, model
+       ORDER BY day DESC, model`,
+    )
+    .all(since, client ?? null, client ?? null);
+}
+
+function toCsv(rows: any[]): string {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]);
+  const cell = (v: unknown) => {
+    const s = v === null || v === undefined ? "" : String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return (
+    [
+      columns.join(","),
+      ...rows.map((r) => columns.map((c) => cell(r[c])).join(",")),
+    ].join("\n") + "\n"
+  );
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// COSTS & BUDGETS
+// ══════════════════════════════════════════════════════════════════════════════
+
+// USD per million tokens
+export type ModelPrice = { inputPerMTok: number; outputPerMTok: number };
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  "anthropic-claude-haiku-4.5": { inputPerMTok: 1, outputPerMTok: 5 },
+  "anthropic-claude-4.5-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "anthropic-claude-opus-4.6": { inputPerMTok: 5, outputPerMTok: 25 },
+  "openai-gpt-5.1-codex-max": { inputPerMTok: 1.25, outputPerMTok: 10 },
+  "openai-gpt-5-mini": { inputPerMTok: 0.25, outputPerMTok: 2 },
+  "openai-gpt-5.2": { inputPerMTok: 1.75, outputPerMTok: 14 },
+  "openai-gpt-5.2-pro": { inputPerMTok: 21, outputPerMTok: 168 },
+  "openai-gpt-oss-120b": { inputPerMTok: 0.1, outputPerMTok: 0.7 },
+};
+
+type BudgetLimit = { dailyUsd?: number; monthlyUsd?: number };
+
+type BudgetPolicy = {
+  global: BudgetLimit;
+  // keyed by client id as recorded in usage stats
+  clients: Record<string, BudgetLimit>;
+  // what happens once a budget is spent
+  action: "reject" | "downgrade";
+  // cheaper model per expensive one, for the "downgrade" action
+  downgrade: Record<string, string>;
+};
+
+function requestCost(
+  pricing: Record<string, ModelPrice>,
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+): number {
+  const price = pricing[model];
+  if (!price) return 0;
+  return (
+    (promptTokens * price.inputPerMTok +
+      completionTokens * price.outputPerMTok) /
+    1_000_000
+  );
+}
+
+function spentUsd(
+  policy: ProxySettings["usage"],
+  sinceDay: string,
+  client?: string,
+): number {
+  const row: any = openUsageDatabase(policy.dbPath)
+    .query(
+      client === undefined
+        ? "SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM usage WHERE day >= ?"
+        : "SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM usage WHERE day >= ? AND client = ?",
+    )
+    .get(...(client === undefined ? [sinceDay] : [sinceDay, client]));
+  return row?.spent ?? 0;
+}
+
+// The first budget the client has used up, described for the error message.
+// Callers without a key from the store (client null) answer to the global
+// budget alone.
+function exceededBudget(
+  settings: ProxySettings,
+  client: string | null,
+): string | null {
+  if (!settings.usage.enabled) return null;
+  const today = new Date().toISOString().slice(0, 10);
+  const monthStart = `${today.slice(0, 7)}-01`;
+
+  const scopes: [string, BudgetLimit, string | undefined][] = [
+    ["global", settings.budgets.global, undefined],
+  ];
+  const own = client === null ? undefined : settings.budgets.clients[client];
+  if (own && client) scopes.push([`client ${client}`, own, client]);
+
+  for (const [scope, limit, who] of scopes) {
+    for (const [period, cap, since] of [
+      ["daily", limit.dailyUsd, today],
+      ["monthly", limit.monthlyUsd, monthStart],
+    ] as const) {
+      if (cap === undefined) continue;
+      const spent = spentUsd(settings.usage, since, who);
+      if (spent >= cap) {
+        return `${scope} ${period} budget of $${cap.toFixed(2)} exhausted ($${spent.toFixed(2)} spent)`;
+      }
+    }
+  }
+  return null;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// RATE LIMITS
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type RateLimitRule = {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
+};
+
+const RATE_LIMIT_FIELDS = [
+  "requestsPerMinute",
+  "tokensPerMinute",
+  "maxConcurrent",
+] as const;
+
+type RateLimitPolicy = {
+  // by key label; "*" gives every other keyed client limits of its own and is
+  // shared by all callers without a key from the store
+  clients: Record<string, RateLimitRule>;
+  // by model id; "*" gives every other model limits of its own
+  models: Record<string, RateLimitRule>;
+  // longest a request waits for its rate to allow it or for a free slot
+  queueTimeoutMs: number;
+  // requests waiting for one slot beyond which new ones are turned away
+  maxQueue: number;
+};
+
+// Interactive chat is let through before background apply/autocomplete work
+type RequestPriority = "interactive" | "background";
+
+class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+    readonly limit: "requests" | "tokens" | "concurrency",
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+// Continue's autocomplete comes in on /v1/completions. Anything else can be
+// tagged with `X-Proxy-Priority: background` (Continue: requestOptions.headers
+// on the apply model).
+function requestPriority(req: Request, path: string): RequestPriority {
+  const tagged = req.headers.get("x-proxy-priority")?.toLowerCase();
+  if (tagged === "background" || tagged === "interactive") return tagged;
+  return path === "/v1/completions" ? "background" : "interactive";
+}
+
+type TokenBucket = {
+  level: number;
+  updatedAt: number;
+  // held for interactive requests waiting on this bucket; background
+  // requests only get what refills beyond it
+  reserved: number;
+};
+
+// Milliseconds until `amount` can be taken from a bucket refilled at
+// `perMinute`. Amounts larger than the bucket wait for it to be full.
+function bucketWaitMs(
+  bucket: TokenBucket,
+  perMinute: number,
+  amount: number,
+  now: number,
+): number {
+  bucket.level = Math.min(
+    perMinute,
+    bucket.level + ((now - bucket.updatedAt) * perMinute) / 60_000,
+  );
+  bucket.updatedAt = now;
+  const need = Math.min(amount, perMinute);
+  return bucket.level >= need
+    ? 0
+    : Math.ceil(((need - bucket.level) * 60_000) / perMinute);
+}
+
+// What one request takes from one bucket
+type RateCharge = {
+  name: string;
+  limit: "requests" | "tokens";
+  perMinute: number;
+  amount: number;
+};
+
+type Waiter = { priority: RequestPriority; grant(): void };
+
+type ConcurrencyQueue = { limit: number; active: number; waiting: Waiter[] };
+
+type Admission = {
+  waitedMs: number;
+  // Frees the request's slots; with `tokens`, the tokens it actually used
+  // replace the estimate it was admitted on. Only the first call counts.
+  release(tokens?: number): void;
+};
+
+type RateLimiter = {
+  admit(request: {
+    client: string;
+    model: string;
+    tokens: number;
+    priority: RequestPriority;
+    signal: AbortSignal;
+  }): Promise<Admission>;
+};
+
+function createRateLimiter(policy: () => RateLimitPolicy): RateLimiter {
+  const buckets = new Map<string, TokenBucket>();
+  const queues = new Map<string, ConcurrencyQueue>();
+
+  const bucket = (key: string, perMinute: number) => {
+    let b = buckets.get(key);
+    if (!b) {
+      buckets.set(
+        key,
+        (b = { level: perMinute, updatedAt: Date.now(), reserved: 0 }),
+      );
+    }
+    return b;
+  };
+
+  function drain(q: ConcurrencyQueue): void {
+    while (q.active < q.limit && q.waiting.length > 0)
+      q.waiting.shift()!.grant();
+  }
+
+  function enter(
+    q: ConcurrencyQueue,
+    scope: string,
+    priority: RequestPriority,
+    deadline: number,
+    maxQueue: number,
+    signal: AbortSignal,
+  ): Promise<void> {
+    drain(q);
+    if (q.active < q.limit && q.waiting.length === 0) {
+      q.active++;
+      return Promise.resolve();
+    }
+    // a slot frees up whenever a request finishes, so retry soon
+    const busy = (message: string) =>
+      new RateLimitError(`${message} for ${scope}`, 1000, "concurrency");
+    if (q.waiting.length >= maxQueue) {
+      return Promise.reject(
+        busy(`${q.waiting.length} requests already queued`),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority,
+        grant: () => {
+          settle();
+          q.active++;
+          resolve();
+        },
+      };
+      // behind every interactive waiter, ahead of every background one
+      const at =
+        priority === "interactive"
+          ? q.waiting.findIndex((w) => w.priority === "background")
+          : -1;
+      if (at >= 0) q.waiting.splice(at, 0, waiter);
+      else q.waiting.push(waiter);
+
+      const fail = (err: unknown) => {
+        settle();
+        q.waiting.splice(q.waiting.indexOf(waiter), 1);
+        reject(err);
+      };
+      const timer = setTimeout(
+        () => fail(busy(`No free slot within ${policy().queueTimeoutMs}ms`)),
+        Math.max(0, deadline - Date.now()),
+      );
+      const onAbort = () => fail(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      function settle() {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+      }
+    });
+  }
+
+  function leave(q: ConcurrencyQueue): void {
+    q.active--;
+    drain(q);
+  }
+
+  return {
+    async admit({ client, model, tokens, priority, signal }) {
+      const p = policy();
+      const startedAt = Date.now();
+      const deadline = startedAt + p.queueTimeoutMs;
+      const scopes = [
+        { name: `client ${client}`, rule: p.clients[client] ?? p.clients["*"] },
+        { name: `model ${model}`, rule: p.models[model] ?? p.models["*"] },
+      ].flatMap(({ name, rule }) => (rule ? [{ name, rule }] : []));
+      const rates: RateCharge[] = [];
+      for (const { name, rule } of scopes) {
+        const { requestsPerMinute: rpm, tokensPerMinute: tpm } = rule;
+        if (rpm)
+          rates.push({ name, limit: "requests", perMinute: rpm, amount: 1 });
+        if (tpm)
+          rates.push({ name, limit: "tokens", perMinute: tpm, amount: tokens });
+      }
+
+      let queued = false;
+      const markQueued = () => {
+        if (queued) return;
+        queued = true;
+        metrics.inc("do_proxy_queued_requests");
+      };
+      const held: ConcurrencyQueue[] = [];
+      try {
+        // Wait for every bucket at once, then take from all of them, so a
+        // request that gives up has not used any of its rates. A waiting
+        // interactive request reserves what it needs, so background requests
+        // refilling the same buckets cannot take it first.
+        const bucketOf = (rate: RateCharge) =>
+          bucket(`${rate.name} ${rate.limit}`, rate.perMinute);
+        let reserved = false;
+        try {
+          for (;;) {
+            const now = Date.now();
+            let slowest: { waitMs: number; rate: RateCharge } | null = null;
+            for (const rate of rates) {
+              const b = bucketOf(rate);
+              const waitMs = bucketWaitMs(
+                b,
+                rate.perMinute,
+                rate.amount + (priority === "background" ? b.reserved : 0),
+                now,
+              );
+              if (waitMs > (slowest?.waitMs ?? 0)) slowest = { waitMs, rate };
+            }
+            if (!slowest) break;
+            const { waitMs, rate } = slowest;
+            if (now + waitMs > deadline) {
+              metrics.inc("do_proxy_rate_limited_total", {
+                limit: rate.limit,
+              });
+              throw new RateLimitError(
+                `Rate limit reached for ${rate.name} on ${rate.limit} per minute (limit ${rate.perMinute}); try again in ${Math.ceil(waitMs / 1000)}s`,
+                waitMs,
+                rate.limit,
+              );
+            }
+            if (priority === "interactive" && !reserved) {
+              reserved = true;
+              for (const r of rates) bucketOf(r).reserved += r.amount;
+            }
+            markQueued();
+            await sleep(waitMs, signal);
+          }
+        } finally {
+          if (reserved) {
+            for (const r of rates) bucketOf(r).reserved -= r.amount;
+          }
+        }
+        for (const rate of rates) bucketOf(rate).level -= rate.amount;
+
+        for (const { name, rule } of scopes) {
+          if (!rule.maxConcurrent) continue;
+          let q = queues.get(name);
+          if (!q) queues.set(name, (q = { limit: 0, active: 0, waiting: [] }));
+          q.limit = rule.maxConcurrent;
+          if (q.active >= q.limit || q.waiting.length > 0) markQueued();
+          try {
+            await enter(q, name, priority, deadline, p.maxQueue, signal);
+          } catch (e) {
+            if (e instanceof RateLimitError) {
+              metrics.inc("do_proxy_rate_limited_total", { limit: e.limit });
+            }
+            throw e;
+          }
+          held.push(q);
+        }
+      } catch (e) {
+        held.forEach(leave);
+        throw e;
+      } finally {
+        if (queued) metrics.inc("do_proxy_queued_requests", {}, -1);
+      }
+
+      let released = false;
+      return {
+        waitedMs: queued ? Date.now() - startedAt : 0,
+        release(used) {
+          if (released) return;
+          released = true;
+          held.forEach(leave);
+          if (used === undefined) return;
+          for (const rate of rates) {
+            if (rate.limit !== "tokens") continue;
+            bucket(`${rate.name} tokens`, rate.perMinute).level -=
+              used - tokens;
+          }
+        },
+      };
+    },
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// METRICS
+// ══════════════════════════════════════════════════════════════════════════════
+
+type MetricLabels = Record<string, string>;
+
+type MetricSeries = {
+  labels: MetricLabels;
+  value: number;
+  // histograms only: per-bucket (non-cumulative) counts and the sum
+  counts: number[];
+  sum: number;
+};
+
+type MetricFamily = {
+  kind: "counter" | "gauge" | "histogram";
+  help: string;
+  buckets?: number[];
+  series: Map<string, MetricSeries>;
+};
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([k, v]) => `${k}="${escapeLabelValue(v)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Process-wide registry rendered in the Prometheus text format
+function createMetrics() {
+  const families = new Map<string, MetricFamily>();
+
+  const series = (name: string, labels: MetricLabels): MetricSeries => {
+    const family = families.get(name);
+    if (!family) throw new Error(`Unknown metric ${name}`);
+    const id = formatLabels(labels);
+    let entry = family.series.get(id);
+    if (!entry) {
+      entry = {
+        labels,
+        value: 0,
+        counts: (family.buckets ?? []).map(() => 0),
+        sum: 0,
+      };
+      family.series.set(id, entry);
+    }
+    return entry;
+  };
+
+  return {
+    define(
+      name: string,
+      kind: MetricFamily["kind"],
+      help: string,
+      buckets?: number[],
+    ) {
+      families.set(name, { kind, help, buckets, series: new Map() });
+    },
+
+    inc(name: string, labels: MetricLabels = {}, by = 1) {
+      series(name, labels).value += by;
+    },
+
+    observe(name: string, labels: MetricLabels, value: number) {
+      const entry = series(name, labels);
+      const buckets = families.get(name)!.buckets ?? [];
+      const i = buckets.findIndex((le) => value <= le);
+      if (i >= 0) entry.counts[i] = (entry.counts[i] ?? 0) + 1;
+      entry.sum += value;
+      entry.value++;
+    },
+
+    render(): string {
+      const lines: string[] = [];
+      for (const [name, family] of families) {
+        lines.push(`# HELP ${name} ${family.help}`);
+        lines.push(`# TYPE ${name} ${family.kind}`);
+        for (const entry of family.series.values()) {
+          if (!family.buckets) {
+            lines.push(`${name}${formatLabels(entry.labels)} ${entry.value}`);
+            continue;
+          }
+          let cumulative = 0;
+          family.buckets.forEach((le, i) => {
+            cumulative += entry.counts[i] ?? 0;
+            lines.push(
+              `${name}_bucket${formatLabels({ ...entry.labels, le: String(le) })} ${cumulative}`,
+            );
+          });
+          lines.push(
+            `${name}_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.value}`,
+          );
+          lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+          lines.push(
+            `${name}_count${formatLabels(entry.labels)} ${entry.value}`,
+          );
+        }
+      }
+      return lines.join("\n") + "\n";
+    },
+  };
+}
+
+const metrics = createMetrics();
+metrics.define(
+  "do_proxy_requests_total",
+  "counter",
+  "Proxied requests by model, final status and route",
+);
+metrics.define(
+  "do_proxy_request_duration_seconds",
+  "histogram",
+  "Time from request to the end of the response",
+  LATENCY_BUCKETS,
+);
+metrics.define(
+  "do_proxy_time_to_first_token_seconds",
+  "histogram",
+  "Time from request to the first streamed chunk",
+  LATENCY_BUCKETS,
+);
+metrics.define(
+  "do_proxy_upstream_retries_total",
+  "counter",
+  "Upstream attempts retried by fetchWithRetry, by status or network error",
+);
+metrics.define(
+  "do_proxy_normalizations_total",
+  "counter",
+  "Repairs made to chat histories before they are sent upstream",
+);
+metrics.define(
+  "do_proxy_inflight_streams",
+  "gauge",
+  "Chat streams currently open to clients",
+);
+metrics.define(
+  "do_proxy_tokens_total",
+  "counter",
+  "Prompt and completion tokens, including estimates",
+);
+metrics.define(
+  "do_proxy_rate_limited_total",
+  "counter",
+  "Requests turned away by a rate limit or a full concurrency queue",
+);
+metrics.define(
+  "do_proxy_queued_requests",
+  "gauge",
+  "Requests waiting for a rate limit or a concurrency slot",
+);
+
+// Paths are client-chosen, so anything but the known APIs shares one label
+const METRIC_ROUTES = new Set([
+  "/v1/chat/completions",
+  "/v1/messages",
+  "/v1/responses",
+  "/v1/completions",
+]);
+
+function metricRoute(path: string): string {
+  return METRIC_ROUTES.has(path) ? path : "other";
+}
+
+// Counts a stream as open until the returned function is first called
+function trackInFlightStream(): () => void {
+  metrics.inc("do_proxy_inflight_streams");
+  let open = true;
+  return () => {
+    if (!open) return;
+    open = false;
+    metrics.inc("do_proxy_inflight_streams", {}, -1);
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// FETCH HELPERS
+// ══════════════════════════════════════════════════════════════════════════════
+
+// `fetchImpl` lets DO's model list go through cassettes like chat requests,
+// so /v1/models and aliases keep working in offline replay
+// `timeoutMs` bounds the whole call, so a stalled upstream costs the first
+// aliased request and /v1/models no more than any other buffered request
+async function fetchDoModels(
+  inferenceUrl: string,
+  apiKey: string | null,
+  timeoutMs: number,
+  fetchImpl: (url: string, init: RequestInit) => Promise<Response> = fetch,
+): Promise<any[] | null> {
+  try {
+    const r = await fetchImpl(`${inferenceUrl}/v1/models`, {
+      method: "GET",
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+    });
+    if (!r.ok) return null;
+    const j: any = await r.json().catch(() => null);
+    return Array.isArray(j?.data) ? j.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeOpenAIChatCompletionsBody(body: any): {
+  changed: boolean;
+} {
+  return normalizeChatCompletionsMessages(body);
+}
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  opts: {
+    retries: number;
+    baseDelayMs: number;
+    retryStatuses: Set<number>;
+    // aborts the in-flight attempt and any retry sleep (client disconnect)
+    signal?: AbortSignal;
+    // per-attempt limit on waiting for response headers
+    timeoutMs?: number;
+    timeoutKind?: UpstreamTimeoutKind;
+    // picks the Authorization key per attempt; a throttled or rejected key
+    // is retried right away on another key instead of backing off
+    keys?: { pool: KeyPool; strategy: KeySelection };
+    // stands in for the global fetch (cassette record/replay)
+    fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  },
+): Promise<Response> {
+  let lastErr: unknown = null;
+
+  for (let attempt = 0; attempt <= opts.retries; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(opts.signal?.reason);
+    if (opts.signal?.aborted) throw opts.signal.reason;
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timer =
+      opts.timeoutMs && opts.timeoutMs > 0
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new UpstreamTimeoutError(
+                  opts.timeoutKind ?? "connect",
+                  opts.timeoutMs ?? 0,
+                ),
+              ),
+            opts.timeoutMs,
+          )
+        : null;
+
+    let delay: number;
+    const key = opts.keys?.pool.pick(opts.keys.strategy);
+    const headers = key
+      ? { ...(init.headers as any), Authorization: `Bearer ${key}` }
+      : init.headers;
+
+    try {
+      // the client signal stays attached so a disconnect also stops the body
+      const res = await (opts.fetch ?? fetch)(url, {
+        ...init,
+        headers,
+        signal: controller.signal,
+      });
+
+      const retryAfter = res.headers.get("retry-after");
+      const retryAfterMs =
+        retryAfter && /^\d+$/.test(retryAfter)
+          ? Number(retryAfter) * 1000
+          : null;
+      const rotate =
+        !!key &&
+        (res.status === 429 || res.status === 401) &&
+        opts.keys!.pool.hasAlternative(key);
+      if (key) opts.keys!.pool.report(key, res.status, retryAfterMs);
+
+      if (
+        (!opts.retryStatuses.has(res.status) && !rotate) ||
+        attempt === opts.retries
+      )
+        return res;
+
+      delay = rotate
+        ? 0
+        : (retryAfterMs ?? opts.baseDelayMs * Math.pow(2, attempt));
+      metrics.inc("do_proxy_upstream_retries_total", {
+        reason: String(res.status),
+      });
+      log.warn(
+        rotate
+          ? `🔑 ${res.status} retry on another key (${attempt + 1}/${opts.retries})`
+          : `⏳ ${res.status} retry in ${delay}ms (${attempt + 1}/${opts.retries})`,
+      );
+      await res.body?.cancel().catch(() => {});
+      opts.signal?.removeEventListener("abort", onAbort);
+    } catch (e) {
+      opts.signal?.removeEventListener("abort", onAbort);
+      const err = controller.signal.aborted ? controller.signal.reason : e;
+
+      // Never retry on behalf of a client that is gone, and never sit through
+      // a second full first-byte wait
+      if (opts.signal?.aborted) throw opts.signal.reason;
+      if (err instanceof UpstreamTimeoutError && err.kind !== "connect") {
+        throw err;
+      }
+      // a missing cassette stays missing
+      if (err instanceof CassetteMissError) throw err;
+
+      lastErr = err;
+      if (attempt === opts.retries) break;
+      delay = opts.baseDelayMs * Math.pow(2, attempt);
+      metrics.inc("do_proxy_upstream_retries_total", { reason: "network" });
+      log.warn(
+        `⏳ Error retry in ${delay}ms (${attempt + 1}/${opts.retries})`,
+        { error: err },
+      );
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+
+    await sleep(delay, opts.signal);
+  }
+
+  throw lastErr ?? new Error("fetchWithRetry failed");
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// TIMEOUTS
+// ══════════════════════════════════════════════════════════════════════════════
+
+type UpstreamTimeoutKind = "connect" | "first_byte" | "stream_idle";
+
+type UpstreamTimeouts = {
+  // until response headers arrive (streaming requests)
+  connectMs: number;
+  // until the first body byte; covers the header wait for non-streaming
+  // requests, whose headers only arrive once generation is done
+  firstByteMs: number;
+  // longest silence allowed between two stream chunks
+  streamIdleMs: number;
+};
+
+// Slow-to-start models get more room before the first token
+const MODEL_TIMEOUTS: Record<string, Partial<UpstreamTimeouts>> = {
+  "anthropic-claude-opus-4.6": { firstByteMs: 300_000 },
+  // never streams upstream (see MODEL_CAPABILITIES), so only the wait for the
+  // whole answer matters; heartbeats keep the client's SSE open meanwhile
+  "openai-gpt-5.2-pro": { firstByteMs: 600_000 },
+  "openai-gpt-5.1-codex-max": { firstByteMs: 300_000 },
+};
+
+class UpstreamTimeoutError extends Error {
+  constructor(
+    readonly kind: UpstreamTimeoutKind,
+    readonly ms: number,
+  ) {
+    super(`Upstream ${kind.replace("_", "-")} timeout after ${ms}ms`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+function timeoutsForModel(
+  model: string | undefined,
+  defaults: UpstreamTimeouts,
+  overrides: Record<string, Partial<UpstreamTimeouts>> = MODEL_TIMEOUTS,
+): UpstreamTimeouts {
+  return {
+    ...defaults,
+    ...(typeof model === "string" ? overrides[model] : undefined),
+  };
+}
+
+function openAIError(
+  message: string,
+  type: string,
+  code: string | null = null,
+  param: string | null = null,
+): any {
+  return { error: { message, type, param, code } };
+}
+
+function timeoutErrorBody(err: UpstreamTimeoutError): any {
+  return openAIError(
+    err.message,
+    "timeout_error",
+    `upstream_${err.kind}_timeout`,
+  );
+}
+
+function streamErrorBody(err: unknown): any {
+  if (err instanceof UpstreamTimeoutError) return timeoutErrorBody(err);
+  return openAIError(String(err), "server_error");
+}
+
+// Errors the stream with UpstreamTimeoutError when the first chunk or any
+// following chunk takes too long, cancelling the upstream body.
+function withStreamTimeouts(
+  upstream: ReadableStream<Uint8Array>,
+  timeouts: { firstByteMs: number; streamIdleMs: number },
+): ReadableStream<Uint8Array> {
+  const reader = upstream.getReader();
+  let received = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const kind: UpstreamTimeoutKind = received ? "stream_idle" : "first_byte";
+      const ms = received ? timeouts.streamIdleMs : timeouts.firstByteMs;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      try {
+        const result = await Promise.race([
+          reader.read(),
+          new Promise<never>((_, reject) => {
+            if (ms > 0) {
+              timer = setTimeout(
+                () => reject(new UpstreamTimeoutError(kind, ms)),
+                ms,
+              );
+            }
+          }),
+        ]);
+        if (result.done) {
+          controller.close();
+          return;
+        }
+        received = true;
+        controller.enqueue(result.value);
+      } catch (e) {
+        reader.cancel(e).catch(() => {});
+        controller.error(e);
+      } finally {
+        if (timer) clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// STREAM HEARTBEATS & TIMING
+// ══════════════════════════════════════════════════════════════════════════════
+
+const HEARTBEAT_COMMENT = new TextEncoder().encode(": ping\n\n");
+
+// Passes the upstream body through untouched, reporting when the first chunk
+// arrives and when the stream ends (normally, with an error, or cancelled).
+function withStreamTiming(
+  upstream: ReadableStream<Uint8Array>,
+  hooks: { onFirstChunk?: () => void; onEnd?: () => void },
+): ReadableStream<Uint8Array> {
+  const reader = upstream.getReader();
+  let seen = false;
+  let ended = false;
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    hooks.onEnd?.();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end();
+          controller.close();
+          return;
+        }
+        if (!seen) {
+          seen = true;
+          hooks.onFirstChunk?.();
+        }
+        controller.enqueue(value);
+      } catch (e) {
+        end();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      end();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Sends SSE comment heartbeats every `intervalMs` until `firstData` settles,
+// so idle-connection reapers don't close the stream while a slow model is
+// still thinking. Chunks of `stream` are forwarded as they come.
+function withHeartbeats(
+  stream: ReadableStream<Uint8Array>,
+  intervalMs: number,
+  firstData: Promise<void>,
+): ReadableStream<Uint8Array> {
+  if (!(intervalMs > 0)) return stream;
+
+  const reader = stream.getReader();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      timer = setInterval(() => {
+        try {
+          controller.enqueue(HEARTBEAT_COMMENT);
+        } catch {
+          stop();
+        }
+      }, intervalMs);
+      firstData.then(stop, stop);
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          stop();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (e) {
+        stop();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      stop();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Heartbeats an SSE response whose upstream has not answered yet. Once
+// `ready` resolves, an SSE response is piped through as-is; any other
+// response (an error) is re-sent as a single data event.
+function heartbeatsUntilReady(
+  ready: Promise<Response>,
+  intervalMs: number,
+  errorEvent?: string,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let cancelBody: ((reason?: unknown) => Promise<void>) | null = null;
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(HEARTBEAT_COMMENT);
+      timer = setInterval(
+        () => controller.enqueue(HEARTBEAT_COMMENT),
+        intervalMs,
+      );
+
+      const res = await ready;
+      if (timer) clearInterval(timer);
+      if (cancelled) {
+        await res.body?.cancel().catch(() => {});
+        return;
+      }
+
+      try {
+        if (
+          res.body &&
+          (res.headers.get("content-type") ?? "").includes("text/event-stream")
+        ) {
+          const reader = res.body.getReader();
+          cancelBody = (reason) => reader.cancel(reason);
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            controller.enqueue(value);
+          }
+        } else {
+          const text = await res.text();
+          controller.enqueue(
+            encoder.encode(encodeSseEvent(text || "{}", errorEvent)),
+          );
+          if (!errorEvent)
+            controller.enqueue(encoder.encode(encodeSseEvent("[DONE]")));
+        }
+        controller.close();
+      } catch (e) {
+        if (!cancelled) controller.error(e);
+      }
+    },
+    cancel(reason) {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      return cancelBody?.(reason);
+    },
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// PROXY HANDLER
+// ══════════════════════════════════════════════════════════════════════════════
+
+export function createProxyHandler(config?: {
+  inferenceUrl?: string;
+  apiKey?: string;
+  apiKeys?: string[];
+  timeouts?: Partial<UpstreamTimeouts>;
+  modelTimeouts?: Record<string, Partial<UpstreamTimeouts>>;
+  heartbeatIntervalMs?: number;
+}): (req: Request) => Promise<Response> {
+  const inferenceUrl = config?.inferenceUrl ?? getConfig().inferenceUrl;
+  const apiKeys = config?.apiKeys?.length
+    ? config.apiKeys
+    : config?.apiKey
+      ? [config.apiKey]
+      : getConfig().apiKeys.length > 0
+        ? getConfig().apiKeys
+        : [getConfig().apiKey];
+  const keyPool = createKeyPool(
+    apiKeys,
+    () => getProxySettings().keys.cooldownMs,
+  );
+  const pickKey = () => keyPool.pick(getProxySettings().keys.selection);
+  const breakers = createCircuitBreakers(
+    () => getProxySettings().circuitBreaker,
+  );
+  const responseCache = createResponseCache(() => getProxySettings().cache);
+  const cassettes = createCassettes(
+    () => getProxySettings().cassettes,
+    () => [
+      ...apiKeys,
+      ...Object.values(getProxySettings().upstreams).flatMap(
+        (u) => upstreamApiKey(u) ?? [],
+      ),
+    ],
+  );
+  const clientKeys = createClientKeyStore(
+    () => getProxySettings().clients.storePath,
+  );
+  const limiter = createRateLimiter(() => getProxySettings().rateLimits);
+
+  const aliasResolver = createModelAliasResolver(() =>
+    fetchDoModels(
+      inferenceUrl,
+      pickKey(),
+      config?.timeouts?.firstByteMs ?? getProxySettings().timeouts.firstByteMs,
+      cassettes.fetch,
+    ),
+  );
+
+  const handleRequest = async (
+    req: Request,
+    requestId: string,
+  ): Promise<Response> => {
+    const startedAt = performance.now();
+    let reqLog = log.child({ requestId });
+    // Read per request so config reloads apply without a restart
+    const settings = getProxySettings();
+    const defaultTimeouts: UpstreamTimeouts = {
+      ...settings.timeouts,
+      ...config?.timeouts,
+    };
+    const modelTimeouts =
+      config?.modelTimeouts ??
+      Object.fromEntries(
+        Object.entries(settings.models).map(([id, m]) => [
+          id,
+          m.timeouts ?? {},
+        ]),
+      );
+    const heartbeatIntervalMs =
+      config?.heartbeatIntervalMs ?? settings.heartbeatIntervalMs;
+    const url = new URL(req.url);
+    const path = url.pathname;
+
+    const corsHeaders: Record<string, string> = {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, x-api-key, anthropic-version, x-request-id",
+      "Access-Control-Expose-Headers":
+        "X-Served-Model, X-Proxy-Cache, X-Request-Id",
+      "X-Request-Id": requestId,
+    };
+
+    if (req.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    // The status page and Prometheus scrapes stay open; everything else
+    // needs a key from the store once it has any
+    let client: KnownClient | null = null;
+    if (
+      !(req.method === "GET" && (path === "/" || path === "/metrics")) &&
+      clientKeys.enforced(settings.clients.required)
+    ) {
+      const key = requestApiKey(req);
+      client = key ? clientKeys.lookup(key) : null;
+      if (!client) {
+        const message = key
+          ? `Incorrect API key provided: ${maskApiKey(key)}. Ask the proxy's admin for a key.`
+          : "You didn't provide an API key. You need to provide your API key in an Authorization header using Bearer auth (i.e. Authorization: Bearer YOUR_KEY).";
+        reqLog.warn(`🔐 ${key ? "Unknown" : "Missing"} API key`, {
+          route: path,
+        });
+        metrics.inc("do_proxy_requests_total", {
+          model: "unknown",
+          route: metricRoute(path),
+          status: "401",
+        });
+        return Response.json(
+          path === "/v1/messages"
+            ? anthropicError(401, message)
+            : openAIError(
+                message,
+                "invalid_request_error",
+                key ? "invalid_api_key" : null,
+              ),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "WWW-Authenticate": "Bearer" },
+          },
+        );
+      }
+      reqLog = reqLog.child({ client: client.label });
+      const context = logContext.getStore();
+      if (context) context.client = client.label;
+    }
+    const clientId = client?.label ?? clientIdOf(req);
+    // X-Proxy-Client and unchecked keys are the caller's to change at will, so
+    // only a key from the store gets per-client budgets and limits
+    const limitedAs = client?.label ?? null;
+    const allowsModel = (model: unknown) =>
+      !client || typeof model !== "string" || client.allowsModel(model);
+    // Shared state and other clients' usage are for admin keys only
+    const forbidden = (what: string) => {
+      reqLog.warn(`🔐 Client ${clientId} may not ${what}`);
+      return Response.json(
+        openAIError(
+          `Client ${clientId} may not ${what}; this needs an admin key`,
+          "invalid_request_error",
+          "admin_required",
+        ),
+        { status: 403, headers: corsHeaders },
+      );
+    };
+    const isAdmin = !client || client.admin === true;
+
+    if (path === "/" && req.method === "GET") {
+      return Response.json(
+        {
+          status: "running",
+          target: inferenceUrl,
+          upstreams: Object.fromEntries(
+            Object.entries(settings.upstreams).map(([name, u]) => [
+              name,
+              u.baseUrl,
+            ]),
+          ),
+          circuits: breakers.snapshot(),
+        },
+        { headers: corsHeaders },
+      );
+    }
+
+    if (path === "/stats" && req.method === "GET") {
+      const days = Math.max(1, Number(url.searchParams.get("days")) || 30);
+      const only = url.searchParams.get("client") ?? undefined;
+      if (!isAdmin && only !== client?.label) {
+        return forbidden("read other clients' usage");
+      }
+      if (!settings.usage.enabled) {
+        return Response.json(
+          openAIError("Usage accounting is disabled", "invalid_request_error"),
+          { status: 404, headers: corsHeaders },
+        );
+      }
+      return Response.json(
+        { days, data: usageStats(settings.usage, days, only) },
+        { headers: corsHeaders },
+      );
+    }
+
+    if (path === "/metrics" && req.method === "GET") {
+      return new Response(metrics.render(), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        },
+      });
+    }
+
+    if (path === "/cache" && req.method === "DELETE") {
+      if (!isAdmin) return forbidden("purge the response cache");
+      const purged = responseCache.purge();
+      reqLog.info(`💾 Cache purged (${purged} entries)`);
+      return Response.json({ purged }, { headers: corsHeaders });
+    }
+
+    if (path === "/debug/keys" && req.method === "GET") {
+      if (!isAdmin) return forbidden("read the upstream key pool");
+      return Response.json(
+        { selection: settings.keys.selection, keys: keyPool.snapshot() },
+        { headers: corsHeaders },
+      );
+    }
+
+    if (path === "/debug/aliases" && req.method === "GET") {
+      if (!isAdmin) return forbidden("read the alias table");
+      return Response.json(await aliasResolver.snapshot(), {
+        headers: corsHeaders,
+      });
+    }
+
+    if (path === "/v1/models" && req.method === "GET") {
+      const [remote, ...others] = await Promise.all([
+        fetchDoModels(
+          inferenceUrl,
+          pickKey(),
+          defaultTimeouts.firstByteMs,
+          cassettes.fetch,
+        ),
+        ...Object.entries(settings.upstreams).map(([name, u]) =>
+          listUpstreamModels(name, u, defaultTimeouts.firstByteMs),
+        ),
+      ]);
+      const data = [
+        ...(remote ?? settings.fallbackModels).map((m: any) => ({
+          ...m,
+          upstream: DEFAULT_UPSTREAM,
+        })),
+        ...others.flat(),
+      ]
+        .filter((m: any) => allowsModel(m.id))
+        .map((m: any) => modelWithCapabilities(m, settings));
+      return Response.json({ object: "list", data }, { headers: corsHeaders });
+    }
+
+    // Anthropic, Responses-API and legacy completions clients are translated
+    // onto DO chat completions
+    const apiFormat: "openai" | "anthropic" | "responses" | "completions" =
+      path === "/v1/messages"
+        ? "anthropic"
+        : path === "/v1/responses"
+          ? "responses"
+          : path === "/v1/completions"
+            ? "completions"
+            : "openai";
+    let upstreamPath = path;
+
+    // Aborted when the client goes away or the stream consumer cancels, so the
+    // upstream generation (and any pending retry) stops with it
+    const upstreamAbort = new AbortController();
+    const abortUpstream = (reason?: unknown) => {
+      if (!upstreamAbort.signal.aborted) upstreamAbort.abort(reason);
+    };
+    // Rate-limit slots held from admission until the request is accounted
+    let admission: Admission | null = null;
+    // A stream can still stall or be cut off after its headers, so the
+    // breaker hears how it went only once it ends
+    let streamCircuit: string | null = null;
+    const settleStreamCircuit = (ok: boolean | null) => {
+      if (streamCircuit) breakers.record(streamCircuit, ok);
+      streamCircuit = null;
+    };
+    const onClientAbort = () => {
+      settleStreamCircuit(null);
+      admission?.release();
+      abortUpstream(req.signal.reason);
+    };
+    req.signal?.addEventListener("abort", onClientAbort, { once: true });
+
+    // Every proxied request is counted once, with the status it ended on
+    let observed = false;
+    const observe = (status: number, model: unknown) => {
+      if (observed) return;
+      observed = true;
+      const labels = {
+        model: typeof model === "string" && model ? model : "unknown",
+        route: metricRoute(path),
+      };
+      metrics.inc("do_proxy_requests_total", {
+        ...labels,
+        status: String(status),
+      });
+      metrics.observe(
+        "do_proxy_request_duration_seconds",
+        labels,
+        (performance.now() - startedAt) / 1000,
+      );
+    };
+
+    // Set once a chat body is parsed; the request's outcome is then recorded
+    // exactly once, with usage when the upstream reported it
+    let accounted: { model: string; stream: boolean; prompt: unknown } | null =
+      null;
+    const account = (
+      status: number,
+      usage: any,
+      completion: unknown,
+      ttftMs: number | null = null,
+    ) => {
+      if (!accounted) return;
+      const entry = accounted;
+      accounted = null;
+      const estimate = !usage && status < 400;
+      const current = getProxySettings();
+      const promptTokens =
+        usage?.prompt_tokens ?? (estimate ? estimateTokens(entry.prompt) : 0);
+      const completionTokens =
+        usage?.completion_tokens ?? (estimate ? estimateTokens(completion) : 0);
+      observe(status, entry.model);
+      admission?.release(promptTokens + completionTokens);
+      metrics.inc(
+        "do_proxy_tokens_total",
+        { model: entry.model, type: "prompt" },
+        promptTokens,
+      );
+      metrics.inc(
+        "do_proxy_tokens_total",
+        { model: entry.model, type: "completion" },
+        completionTokens,
+      );
+      recordUsage(current.usage, {
+        model: entry.model,
+        route: path,
+        client: clientId,
+        status,
+        stream: entry.stream,
+        latencyMs: Math.round(performance.now() - startedAt),
+        ttftMs,
+        promptTokens,
+        completionTokens,
+        estimated: estimate,
+        costUsd: requestCost(
+          current.pricing,
+          entry.model,
+          promptTokens,
+          completionTokens,
+        ),
+      });
+    };
+
+    const errorResponse = (error: unknown): Response => {
+      settleStreamCircuit(null);
+      const res = errorResponseFor(error);
+      account(res.status, null, null);
+      observe(res.status, null);
+      return res;
+    };
+
+    const errorResponseFor = (error: unknown): Response => {
+      if (req.signal?.aborted) {
+        reqLog.info("🚫 Client disconnected, upstream request aborted");
+        return new Response(null, { status: 499, headers: corsHeaders });
+      }
+
+      if (error instanceof CircuitOpenError) {
+        reqLog.error(`🔌 ${error.message}`);
+        const headers = {
+          ...corsHeaders,
+          "Retry-After": String(Math.ceil(error.retryInMs / 1000)),
+        };
+        return Response.json(
+          apiFormat === "anthropic"
+            ? anthropicError(503, error.message)
+            : openAIError(error.message, "server_error", "circuit_open"),
+          { status: 503, headers },
+        );
+      }
+
+      if (error instanceof RateLimitError) {
+        reqLog.warn(`🚦 ${error.message}`);
+        return Response.json(
+          apiFormat === "anthropic"
+            ? anthropicError(429, error.message)
+            : openAIError(
+                error.message,
+                error.limit === "tokens" ? "tokens" : "requests",
+                "rate_limit_exceeded",
+              ),
+          {
+            status: 429,
+            headers: {
+              ...corsHeaders,
+              "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)),
+              "retry-after-ms": String(error.retryAfterMs),
+            },
+          },
+        );
+      }
+
+      if (error instanceof CassetteMissError) {
+        reqLog.error(`📼 ${error.message}`);
+        return Response.json(
+          apiFormat === "anthropic"
+            ? anthropicError(502, error.message)
+            : openAIError(error.message, "server_error", "cassette_not_found"),
+          { status: 502, headers: corsHeaders },
+        );
+      }
+
+      if (error instanceof UpstreamTimeoutError) {
+        reqLog.error(`⏱️  ${error.message}`);
+        if (apiFormat === "anthropic") {
+          return Response.json(anthropicError(504, error.message), {
+            status: 504,
+            headers: corsHeaders,
+          });
+        }
+        return Response.json(timeoutErrorBody(error), {
+          status: 504,
+          headers: corsHeaders,
+        });
+      }
+
+      reqLog.error("❌ Proxy error", { error });
+      if (apiFormat === "anthropic") {
+        return Response.json(anthropicError(500, String(error)), {
+          status: 500,
+          headers: corsHeaders,
+        });
+      }
+      return Response.json(
+        { error: "Proxy error", message: String(error) },
+        { status: 500, headers: corsHeaders },
+      );
+    };
+
+    try {
+      let body: any = null;
+      let clientBody: any = null;
+      let isStream = false;
+      // false when the model cannot stream and the client asked it to
+      let upstreamStreaming = true;
+      // temperature 0, or opted in with `X-Proxy-Cache: use`
+      let cacheable = false;
+      let proxyRequestedUsage = false;
+      let rawRequest: string | null = null;
+      // the chat body before any provider adapter touched it
+      let sourceBody: any = null;
+
+      if (
+        req.method === "POST" ||
+        req.method === "PUT" ||
+        req.method === "PATCH"
+      ) {
+        const rawBody = await req.text();
+        rawRequest = rawBody;
+        if (rawBody) {
+          try {
+            body = JSON.parse(rawBody);
+
+            clientBody = body;
+
+            if (apiFormat === "anthropic") {
+              body = anthropicToChatCompletions(body);
+              upstreamPath = "/v1/chat/completions";
+            }
+
+            if (apiFormat === "responses") {
+              if (body.previous_response_id) {
+                observe(400, body.model);
+                return Response.json(
+                  openAIError(
+                    "previous_response_id is not supported by this proxy; send the full conversation in `input`",
+                    "invalid_request_error",
+                    null,
+                    "previous_response_id",
+                  ),
+                  { status: 400, headers: corsHeaders },
+                );
+              }
+              body = responsesToChatCompletions(body);
+              upstreamPath = "/v1/chat/completions";
+            }
+
+            if (apiFormat === "completions") {
+              body = completionsToChatCompletions(body);
+              upstreamPath = "/v1/chat/completions";
+            }
+
+            const originalModel = body.model || "";
+            const mappedModel =
+              settings.modelMapping[originalModel] ??
+              (await aliasResolver.resolve(originalModel));
+            if (mappedModel) {
+              reqLog.info(`🔄 ${originalModel} → ${mappedModel}`);
+              body.model = mappedModel;
+            }
+
+            if (!allowsModel(body.model)) {
+              const message = `Client ${clientId} may not use model ${body.model}`;
+              reqLog.warn(`🔐 ${message}`);
+              observe(403, body.model);
+              return Response.json(
+                apiFormat === "anthropic"
+                  ? anthropicError(403, message)
+                  : openAIError(
+                      message,
+                      "invalid_request_error",
+                      "model_not_allowed",
+                      "model",
+                    ),
+                { status: 403, headers: corsHeaders },
+              );
+            }
+
+            // fallbacks and downgrades start over from this, not from a body
+            // already mapped for the requested model's family
+            if (upstreamPath === "/v1/chat/completions") {
+              sourceBody = structuredClone(body);
+            }
+
+            const adapter = providerAdapterFor(body.model, settings);
+            const caps = capabilitiesFor(body.model, settings);
+
+            if (upstreamPath === "/v1/chat/completions") {
+              adapter.normalize(body);
+
+              const defaultMaxTokens =
+                settings.models[body.model]?.maxTokens ??
+                settings.defaults.maxTokens;
+              if (caps) {
+                const issue = applyModelCapabilities(
+                  body,
+                  caps,
+                  defaultMaxTokens,
+                  settings.capabilityPolicy,
+                );
+                if (issue) {
+                  reqLog.error(`🚫 ${issue.message}`);
+                  observe(400, body.model);
+                  return Response.json(
+                    apiFormat === "anthropic"
+                      ? anthropicError(400, issue.message)
+                      : openAIError(
+                          issue.message,
+                          "invalid_request_error",
+                          "model_capability_unsupported",
+                          issue.param,
+                        ),
+                    { status: 400, headers: corsHeaders },
+                  );
+                }
+                if (!caps.streaming && body.stream === true) {
+                  // buffered upstream, replayed to the client as SSE below
+                  isStream = true;
+                  upstreamStreaming = false;
+                  body.stream = false;
+                  delete body.stream_options;
+                }
+              } else {
+                applyDefaultMaxTokens(body, defaultMaxTokens);
+              }
+            }
+
+            // judged before the adapter, which may drop temperature
+            const cacheHeader = req.headers.get("x-proxy-cache")?.toLowerCase();
+            cacheable =
+              upstreamPath === "/v1/chat/completions" &&
+              cacheHeader !== "bypass" &&
+              (body.temperature === 0 || cacheHeader === "use");
+
+            adapter.mapFields(body, caps, settings);
+
+            isStream ||= body.stream === true;
+
+            // Ask for the final usage chunk; it is kept from clients that
+            // did not request it themselves
+            if (
+              isStream &&
+              upstreamStreaming &&
+              upstreamPath === "/v1/chat/completions" &&
+              body.stream_options?.include_usage !== true
+            ) {
+              body.stream_options = {
+                ...body.stream_options,
+                include_usage: true,
+              };
+              proxyRequestedUsage = true;
+            }
+
+            const msgCount = body.messages?.length ?? 0;
+            const tcCount =
+              body.messages?.filter((m: any) => Array.isArray(m.tool_calls))
+                .length ?? 0;
+            const trCount =
+              body.messages?.filter((m: any) => m.role === "tool").length ?? 0;
+
+            reqLog.info(
+              `📤 ${body.model} (${adapter.family}) | ${msgCount} msgs | ${tcCount} tc | ${trCount} tr | stream:${isStream}`,
+              { route: path, client: clientId },
+            );
+          } catch (e) {
+            reqLog.error("❌ Parse error", { error: e });
+            body = rawBody;
+          }
+        }
+      }
+
+      let timeouts = timeoutsForModel(
+        body?.model,
+        defaultTimeouts,
+        modelTimeouts,
+      );
+      const retryStatuses = new Set(settings.retry.retryStatuses);
+
+      if (
+        upstreamPath === "/v1/chat/completions" &&
+        body &&
+        typeof body === "object"
+      ) {
+        accounted = {
+          model: String(body.model ?? "unknown"),
+          stream: isStream,
+          prompt: [body.messages, body.tools],
+        };
+      }
+
+      let cacheKey =
+        cacheable && settings.cache.enabled && typeof body === "object"
+          ? responseCacheKey(
+              routeModel(body.model, settings).name,
+              upstreamPath,
+              body,
+            )
+          : null;
+      const cached = cacheKey ? responseCache.get(cacheKey) : null;
+      if (cacheKey) corsHeaders["X-Proxy-Cache"] = cached ? "hit" : "miss";
+      if (cached) {
+        reqLog.info(`💾 Cache hit ${cacheKey!.slice(0, 12)} (${body.model})`);
+        // replayed like a model that cannot stream
+        cacheKey = null;
+        upstreamStreaming = false;
+      }
+
+      // Budgets are checked on what was already spent, before going upstream
+      const overBudget =
+        accounted && !cached ? exceededBudget(settings, limitedAs) : null;
+      if (overBudget) {
+        const cheaper = settings.budgets.downgrade[body.model];
+        const downgraded =
+          settings.budgets.action === "downgrade" &&
+          cheaper &&
+          allowsModel(cheaper)
+            ? prepareFallbackBody(sourceBody ?? body, body, cheaper, settings)
+            : null;
+        if (!downgraded) {
+          const message = `Spending limit reached: ${overBudget}`;
+          reqLog.warn(`💸 ${message}`);
+          account(402, null, null);
+          return Response.json(
+            apiFormat === "anthropic"
+              ? anthropicError(402, message)
+              : openAIError(message, "insufficient_quota", "budget_exceeded"),
+            { status: 402, headers: corsHeaders },
+          );
+        }
+        reqLog.warn(`💸 ${overBudget}: ${body.model} → ${cheaper}`);
+        body = downgraded;
+        cacheKey = null;
+        timeouts = timeoutsForModel(body.model, defaultTimeouts, modelTimeouts);
+      }
+
+      // Rates and concurrency are charged to the client and the model it is
+      // sent to (fallbacks run on the same admission), before going upstream
+      if (accounted && !cached) {
+        admission = await limiter.admit({
+          client: limitedAs ?? "*",
+          model: body.model,
+          tokens: estimateTokens(accounted.prompt),
+          priority: requestPriority(req, path),
+          signal: upstreamAbort.signal,
+        });
+        if (admission.waitedMs > 0) {
+          reqLog.info(`🚦 Waited ${admission.waitedMs}ms for rate limits`);
+        }
+      }
+
+      // The primary model first, then its fallback chain. Fallbacks only
+      // apply to chat bodies, and each one is re-targeted up front so models
+      // that cannot take the request are skipped.
+      const candidates: any[] = [body];
+      if (
+        upstreamPath === "/v1/chat/completions" &&
+        typeof body?.model === "string"
+      ) {
+        for (const model of settings.models[body.model]?.fallbacks ?? []) {
+          if (!allowsModel(model)) continue;
+          const next = prepareFallbackBody(
+            sourceBody ?? body,
+            body,
+            model,
+            settings,
+          );
+          if (next) candidates.push(next);
+          else reqLog.warn(`⚠️  Fallback ${model} skipped: unsupported input`);
+        }
+      }
+
+      const attemptUpstream = (candidate: any) => {
+        const t = timeoutsForModel(
+          candidate?.model,
+          defaultTimeouts,
+          modelTimeouts,
+        );
+        const route = routeModel(
+          typeof candidate === "object" ? candidate?.model : undefined,
+          settings,
+        );
+        const baseUrl = route.upstream?.baseUrl ?? inferenceUrl;
+        // a client with its own DO key is billed on it, outside the pool
+        const upstreamKey = route.upstream
+          ? upstreamApiKey(route.upstream)
+          : client?.upstreamKey;
+        const sent =
+          candidate && typeof candidate === "object" && route.upstream
+            ? { ...candidate, model: route.model }
+            : candidate;
+        if (route.upstream) {
+          reqLog.info(`🧭 ${candidate.model} → ${route.name} (${baseUrl})`);
+        }
+
+        return fetchWithRetry(
+          `${baseUrl}${upstreamPath}${url.search}`,
+          {
+            method: req.method,
+            headers: {
+              "Content-Type": "application/json",
+              "X-Request-Id": requestId,
+              ...(upstreamKey
+                ? { Authorization: `Bearer ${upstreamKey}` }
+                : {}),
+            },
+            body: sent
+              ? typeof sent === "string"
+                ? sent
+                : JSON.stringify(sent)
+              : null,
+          },
+          {
+            retries: settings.retry.retries,
+            baseDelayMs: settings.retry.baseDelayMs,
+            retryStatuses,
+            signal: upstreamAbort.signal,
+            // the key pool only holds DO keys
+            keys:
+              route.upstream || upstreamKey
+                ? undefined
+                : { pool: keyPool, strategy: settings.keys.selection },
+            fetch: cassettes.fetch,
+            timeoutMs:
+              isStream && upstreamStreaming ? t.connectMs : t.firstByteMs,
+            timeoutKind:
+              isStream && upstreamStreaming ? "connect" : "first_byte",
+          },
+        );
+      };
+
+      // Resolves with the first usable response; `body` and `timeouts` then
+      // describe the model that actually served the request
+      const upstreamResponse = (async () => {
+        if (cached) {
+          corsHeaders["X-Served-Model"] = body.model;
+          // nothing was spent upstream
+          account(200, { prompt_tokens: 0, completion_tokens: 0 }, null);
+          return Response.json(cached);
+        }
+
+        for (let i = 0; i < candidates.length; i++) {
+          const candidate = candidates[i];
+          const next = candidates[i + 1];
+          const circuit =
+            typeof candidate?.model === "string"
+              ? `${routeModel(candidate.model, settings).name}/${candidate.model}`
+              : null;
+          let failure: string;
+
+          try {
+            if (circuit) breakers.acquire(circuit);
+          } catch (e) {
+            if (!next) throw e;
+            reqLog.warn(
+              `🔀 Fallback ${candidate.model} (circuit open) → ${next.model}`,
+            );
+            continue;
+          }
+
+          try {
+            const res = await attemptUpstream(candidate);
+            if (
+              circuit &&
+              res.ok &&
+              isStream &&
+              upstreamStreaming &&
+              upstreamPath === "/v1/chat/completions"
+            ) {
+              streamCircuit = circuit;
+            } else if (circuit) {
+              // a 429 that outlasted the retries means DO is overloaded
+              breakers.record(circuit, res.status < 500 && res.status !== 429);
+            }
+            if (!next || !retryStatuses.has(res.status)) {
+              if (i > 0) {
+                // only the requested model's answers are cached
+                cacheKey = null;
+                body = candidate;
+                timeouts = timeoutsForModel(
+                  body.model,
+                  defaultTimeouts,
+                  modelTimeouts,
+                );
+              }
+              if (typeof body?.model === "string") {
+                corsHeaders["X-Served-Model"] = body.model;
+              }
+              return res;
+            }
+            failure = String(res.status);
+            await res.body?.cancel().catch(() => {});
+          } catch (e) {
+            if (circuit) {
+              breakers.record(
+                circuit,
+                upstreamAbort.signal.aborted || e instanceof CassetteMissError
+                  ? null
+                  : false,
+              );
+            }
+            if (upstreamAbort.signal.aborted || !next) throw e;
+            if (e instanceof UpstreamTimeoutError && e.kind !== "connect") {
+              throw e;
+            }
+            failure = e instanceof Error ? e.message : String(e);
+          }
+
+          reqLog.warn(
+            `🔀 Fallback ${candidate.model} (${failure}) → ${next.model}`,
+          );
+        }
+        throw new Error("No upstream candidates");
+      })();
+
+      // One file per failed (or, if enabled, successful) upstream exchange
+      const captureExchange = (
+        status: number,
+        headers: Headers,
+        responseBody: unknown,
+      ) => {
+        const file = writeDebugCapture(
+          getProxySettings().debugCapture,
+          {
+            requestId,
+            method: req.method,
+            path,
+            model: typeof body?.model === "string" ? body.model : null,
+            request: { headers: req.headers, body: rawRequest },
+            upstreamRequest: body,
+            response: { status, headers, body: responseBody },
+          },
+          [
+            ...apiKeys,
+            ...(client?.upstreamKey ? [client.upstreamKey] : []),
+            ...Object.values(settings.upstreams).flatMap(
+              (u) => upstreamApiKey(u) ?? [],
+            ),
+          ],
+        );
+        if (file && status >= 400)
+          reqLog.error(`📝 Exchange captured to ${file}`);
+        else if (file) reqLog.info(`📝 Exchange captured to ${file}`);
+      };
+
+      const respond = async (proxyResponse: Response): Promise<Response> => {
+        reqLog.info("📥 Upstream response", {
+          status: proxyResponse.status,
+          model: body?.model,
+        });
+
+        if (!proxyResponse.ok) {
+          const errorText = await proxyResponse.clone().text();
+          reqLog.error("❌ Upstream error", {
+            status: proxyResponse.status,
+            body: errorText,
+          });
+
+          captureExchange(
+            proxyResponse.status,
+            proxyResponse.headers,
+            capturedBody(errorText),
+          );
+
+          if (body?.messages) {
+            reqLog.error("📋 Messages:");
+            body.messages.forEach((m: any, i: number) => {
+              let info = `  [${i}] ${m.role}`;
+              if (m.role === "tool") info += ` (${m.tool_call_id})`;
+              if (m.tool_calls) info += ` tool_calls:${m.tool_calls.length}`;
+
+              if (typeof m.content === "string") {
+                const empty = m.content.trim().length === 0;
+                info += ` len:${m.content.length}${empty ? " ⚠️EMPTY" : ""}`;
+                if (!empty) info += ` "${m.content.substring(0, 30)}..."`;
+              } else if (Array.isArray(m.content)) {
+                info += ` [${m.content.map((b: any) => b?.type || typeof b).join(",")}]`;
+              } else {
+                info += ` ${typeof m.content} ${m.content === null ? "NULL" : ""}`;
+              }
+              reqLog.error(info);
+            });
+          }
+        }
+
+        let markFirstData = () => {};
+        const firstData = new Promise<void>((resolve) => {
+          markFirstData = resolve;
+        });
+        let ttftMs: number | null = null;
+
+        if (accounted) accounted.model = body.model;
+        if (!proxyResponse.ok) account(proxyResponse.status, null, null);
+        // requests without usage accounting end here
+        if (!accounted) observe(proxyResponse.status, body?.model);
+
+        const storeKey = cacheKey;
+        if (accounted && proxyResponse.ok && !(isStream && upstreamStreaming)) {
+          const json: any = await proxyResponse
+            .clone()
+            .json()
+            .catch(() => null);
+          if (storeKey) responseCache.put(storeKey, json);
+          captureExchange(proxyResponse.status, proxyResponse.headers, json);
+          account(proxyResponse.status, json?.usage, [
+            json?.choices?.[0]?.message?.content,
+            json?.choices?.[0]?.message?.reasoning_content,
+            json?.choices?.[0]?.message?.tool_calls,
+          ]);
+        }
+
+        const sourceStream =
+          isStream && !upstreamStreaming && proxyResponse.ok
+            ? chatCompletionToSseStream(await proxyResponse.json())
+            : proxyResponse.body;
+
+        // Chat streams are parsed and re-emitted so they get the same repairs and
+        // logging as buffered responses; anything else is passed through raw.
+        // Error bodies stay unread so the branches below can report them.
+        const timedStream =
+          isStream && sourceStream && proxyResponse.ok
+            ? withStreamTiming(withStreamTimeouts(sourceStream, timeouts), {
+                onFirstChunk: () => {
+                  ttftMs = Math.round(performance.now() - startedAt);
+                  metrics.observe(
+                    "do_proxy_time_to_first_token_seconds",
+                    { model: String(body?.model ?? "unknown") },
+                    ttftMs / 1000,
+                  );
+                  markFirstData();
+                },
+                onEnd: () => {
+                  markFirstData();
+                  const totalMs = Math.round(performance.now() - startedAt);
+                  reqLog.info(
+                    `📥 ${proxyResponse.status} | ttft ${ttftMs ?? "-"}ms | ${totalMs}ms total`,
+                  );
+                },
+              })
+            : proxyResponse.body;
+        const sseResponse = (stream: ReadableStream<Uint8Array>) =>
+          new Response(withHeartbeats(stream, heartbeatIntervalMs, firstData), {
+            status: proxyResponse.status,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              Connection: "keep-alive",
+            },
+          });
+        const chatStream =
+          isStream &&
+          proxyResponse.ok &&
+          timedStream &&
+          upstreamPath === "/v1/chat/completions";
+        const closeStream = chatStream ? trackInFlightStream() : () => {};
+        if (!chatStream) settleStreamCircuit(true);
+        const upstreamStream = chatStream
+          ? normalizeChatStream(timedStream, {
+              model: body?.model,
+              dropUsage: proxyRequestedUsage && apiFormat === "openai",
+              onComplete: (assembled) => {
+                closeStream();
+                settleStreamCircuit(true);
+                logAssembledStream(assembled);
+                captureExchange(
+                  proxyResponse.status,
+                  proxyResponse.headers,
+                  assembledToChatCompletion(assembled),
+                );
+                account(
+                  proxyResponse.status,
+                  assembled.usage,
+                  [assembled.content, assembled.reasoning, assembled.toolCalls],
+                  ttftMs,
+                );
+                if (storeKey) {
+                  responseCache.put(
+                    storeKey,
+                    assembledToChatCompletion(assembled),
+                  );
+                }
+              },
+              onCancel: (reason) => {
+                closeStream();
+                settleStreamCircuit(null);
+                account(499, null, null);
+                abortUpstream(reason);
+              },
+              onError: (e) => {
+                closeStream();
+                // stalled or cut off upstream, unless the client left first
+                settleStreamCircuit(req.signal?.aborted ? null : false);
+                account(
+                  e instanceof UpstreamTimeoutError ? 504 : 502,
+                  null,
+                  null,
+                );
+              },
+            })
+          : timedStream;
+
+        if (apiFormat === "anthropic") {
+          if (!proxyResponse.ok) {
+            const errorBody = await proxyResponse
+              .json()
+              .catch(() => ({ raw: "" }));
+            return Response.json(
+              anthropicError(
+                proxyResponse.status,
+                upstreamErrorMessage(
+                  errorBody,
+                  `Upstream ${proxyResponse.status}`,
+                ),
+              ),
+              { status: proxyResponse.status, headers: corsHeaders },
+            );
+          }
+
+          if (isStream && upstreamStream) {
+            return sseResponse(
+              chatStreamToAnthropicStream(upstreamStream, body?.model ?? ""),
+            );
+          }
+
+          const upstreamBody = await proxyResponse.json().catch(() => null);
+          return Response.json(
+            chatCompletionToAnthropic(upstreamBody, body?.model ?? ""),
+            { status: proxyResponse.status, headers: corsHeaders },
+          );
+        }
+
+        if (apiFormat === "responses" && proxyResponse.ok) {
+          if (isStream && upstreamStream) {
+            return sseResponse(
+              chatStreamToResponsesStream(
+                upstreamStream,
+                body?.model ?? "",
+                clientBody,
+              ),
+            );
+          }
+
+          const upstreamBody = await proxyResponse.json().catch(() => null);
+          return Response.json(
+            chatCompletionToResponses(
+              upstreamBody,
+              body?.model ?? "",
+              clientBody,
+            ),
+            { status: proxyResponse.status, headers: corsHeaders },
+          );
+        }
+
+        if (apiFormat === "completions" && proxyResponse.ok) {
+          if (isStream && upstreamStream) {
+            return sseResponse(
+              chatStreamToTextCompletionStream(
+                upstreamStream,
+                body?.model ?? "",
+                clientBody,
+              ),
+            );
+          }
+
+          const upstreamBody = await proxyResponse.json().catch(() => null);
+          return Response.json(
+            chatCompletionToTextCompletion(
+              upstreamBody,
+              body?.model ?? "",
+              clientBody,
+            ),
+            { status: proxyResponse.status, headers: corsHeaders },
+          );
+        }
+
+        if (isStream && apiFormat === "openai" && upstreamStream) {
+          return sseResponse(upstreamStream);
+        }
+
+        const responseData = await proxyResponse.text();
+        let responseBody: any;
+        try {
+          responseBody = JSON.parse(responseData);
+        } catch {
+          responseBody = { raw: responseData };
+        }
+
+        return Response.json(responseBody, {
+          status: proxyResponse.status,
+          headers: corsHeaders,
+        });
+      };
+
+      // Slow upstreams may hold their headers until the first token. Rather
+      // than leave the client on a silent socket, open the SSE response after
+      // one heartbeat interval and keep it alive until the upstream answers.
+      if (isStream && heartbeatIntervalMs > 0) {
+        const headStart = new AbortController();
+        const early = await Promise.race([
+          upstreamResponse.then(
+            () => false,
+            () => false,
+          ),
+          sleep(heartbeatIntervalMs, headStart.signal).then(
+            () => true,
+            () => false,
+          ),
+        ]);
+        headStart.abort();
+
+        if (early) {
+          const ready = upstreamResponse.then(respond).catch(errorResponse);
+          return new Response(
+            heartbeatsUntilReady(
+              ready,
+              heartbeatIntervalMs,
+              apiFormat === "anthropic" ? "error" : undefined,
+            ),
+            {
+              status: 200,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                Connection: "keep-alive",
+              },
+            },
+          );
+        }
+      }
 
-  return { changed };
+      return await respond(await upstreamResponse);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+
+  // Everything logged while handling the request carries its ID
+  return async function (req: Request): Promise<Response> {
+    const requestId = requestIdFor(req);
+    return logContext.run({ requestId }, () => handleRequest(req, requestId));
+  };
 }
 
 // ══════════════════════════════════════════════════════════════════════════════
-// STRIP UNSUPPORTED FIELDS
+// REPLAY
 // ══════════════════════════════════════════════════════════════════════════════
 
-function stripUnsupportedFields(body: any): void {
-  const fieldsToDelete = [
-    "parallel_tool_calls",
-    "response_format",
-    "logprobs",
-    "top_logprobs",
-    "seed",
-    "frequency_penalty",
-    "presence_penalty",
-    "logit_bias",
-    "user",
-    "service_tier",
-    "store",
-    "metadata",
-  ];
+export type ReplayResult = {
+  path: string;
+  // the chat body as it reached the proxy, and as it would go upstream
+  before: any;
+  after: any;
+  diff: string[];
+  // set when the capability registry would have rejected the request
+  issue: string | null;
+  response: { url: string; status: number; body: unknown } | null;
+};
 
-  for (const field of fieldsToDelete) {
-    if (body[field] !== undefined) delete body[field];
+// A debug capture holds the client's original body; anything else is taken
+// to be a bare request body (such as an older /tmp dump)
+function replaySource(capture: any): {
+  path: string;
+  body: any;
+  // the model that served the captured request
+  model: string | null;
+} {
+  if (isPlainObject(capture) && "upstreamRequest" in capture) {
+    const model = capture.upstreamRequest?.model;
+    return {
+      path:
+        typeof capture.path === "string"
+          ? capture.path
+          : "/v1/chat/completions",
+      body: capture.request?.body ?? capture.upstreamRequest,
+      model: typeof model === "string" && model ? model : null,
+    };
   }
+  return { path: "/v1/chat/completions", body: capture, model: null };
+}
 
-  if (typeof body.n === "number" && body.n > 1) body.n = 1;
+function describeMessage(m: any): string {
+  let info = String(m?.role);
+  if (m?.tool_call_id) info += ` (${m.tool_call_id})`;
+  if (Array.isArray(m?.tool_calls)) {
+    info += ` tool_calls:${m.tool_calls.map((tc: any) => tc?.id).join(",")}`;
+  }
+  const content =
+    typeof m?.content === "string" ? m.content : JSON.stringify(m?.content);
+  const preview = String(content).replace(/\s+/g, " ");
+  return `${info} ${JSON.stringify(preview.length > 60 ? `${preview.slice(0, 60)}…` : preview)}`;
+}
 
-  if (body.tool_choice === "auto") delete body.tool_choice;
-  if (body.tool_choice === "none") {
-    delete body.tool_choice;
-    delete body.tools;
+// Top-level fields first, then messages aligned by longest common
+// subsequence. Unchanged messages are folded into a count.
+function diffChatBodies(before: any, after: any): string[] {
+  const lines: string[] = [];
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  keys.delete("messages");
+  for (const key of keys) {
+    const a = JSON.stringify(before?.[key]);
+    const b = JSON.stringify(after?.[key]);
+    if (a === b) continue;
+    if (a !== undefined) lines.push(`- ${key}: ${a}`);
+    if (b !== undefined) lines.push(`+ ${key}: ${b}`);
   }
-  if (body.tool_choice === "required") body.tool_choice = { type: "any" };
 
-  if (body.tool_choice && typeof body.tool_choice === "object") {
-    const tc = body.tool_choice;
-    if (tc.type === "function" && tc.function?.name) {
-      body.tool_choice = { type: "tool", name: tc.function.name };
+  const from: any[] = Array.isArray(before?.messages) ? before.messages : [];
+  const to: any[] = Array.isArray(after?.messages) ? after.messages : [];
+  const x = from.map((m) => JSON.stringify(m));
+  const y = to.map((m) => JSON.stringify(m));
+  const lcs = Array.from({ length: x.length + 1 }, () =>
+    new Array<number>(y.length + 1).fill(0),
+  );
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        x[i] === y[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
     }
   }
 
-  if (Array.isArray(body.tools)) {
-    for (const tool of body.tools) {
-      if (tool?.type === "function" && tool.function) {
-        if (tool.function.strict !== undefined) delete tool.function.strict;
-        if (!tool.function.description) {
-          tool.function.description = tool.function.name || "A tool";
-        }
-      }
+  let unchanged = 0;
+  const flush = () => {
+    if (unchanged > 0) lines.push(`  … ${unchanged} unchanged message(s)`);
+    unchanged = 0;
+  };
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      unchanged++;
+      i++;
+      j++;
+    } else if (
+      i < x.length &&
+      (j === y.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)
+    ) {
+      flush();
+      lines.push(`- [${i}] ${describeMessage(from[i])}`);
+      i++;
+    } else {
+      flush();
+      lines.push(`+ [${j}] ${describeMessage(to[j])}`);
+      j++;
     }
-    if (body.tools.length === 0) delete body.tools;
   }
+  if (lines.length > 0) flush();
+  return lines;
+}
 
-  if (body.stop !== undefined) {
-    if (Array.isArray(body.stop)) body.stop_sequences = body.stop;
-    else if (typeof body.stop === "string") body.stop_sequences = [body.stop];
-    delete body.stop;
+// Re-runs a captured request through the proxy's chat pipeline (model
+// mapping, provider normalisation and field mapping) and, with `send`, posts
+// the result to the model's upstream or to `upstreamUrl`.
+export async function replayCapture(
+  capture: unknown,
+  opts: {
+    send?: boolean;
+    upstreamUrl?: string;
+    apiKey?: string;
+    // keep only messages[start:end], for bisecting a failing conversation
+    messages?: [number, number?];
+  } = {},
+): Promise<ReplayResult> {
+  const settings = getProxySettings();
+  const source = replaySource(capture);
+  let chat = structuredClone(source.body);
+  if (!isPlainObject(chat))
+    throw new Error("Capture holds no JSON request body");
+  if (source.path === "/v1/messages") chat = anthropicToChatCompletions(chat);
+  if (source.path === "/v1/responses") chat = responsesToChatCompletions(chat);
+  if (source.path === "/v1/completions") {
+    chat = completionsToChatCompletions(chat);
+  }
+  if (opts.messages && Array.isArray(chat.messages)) {
+    chat.messages = chat.messages.slice(opts.messages[0], opts.messages[1]);
   }
+
+  const before = structuredClone(chat);
+  const after = chat;
+  // a capture is replayed against the model that served it, not whatever its
+  // alias resolves to now; bare bodies resolve like the proxy would
+  const config = getConfig();
+  after.model =
+    source.model ??
+    settings.modelMapping[after.model] ??
+    (await createModelAliasResolver(() =>
+      fetchDoModels(
+        config.inferenceUrl,
+        config.apiKeys[0] ?? config.apiKey,
+        settings.timeouts.firstByteMs,
+      ),
+    ).resolve(after.model)) ??
+    after.model;
+  const adapter = providerAdapterFor(after.model, settings);
+  const caps = capabilitiesFor(after.model, settings);
+  adapter.normalize(after);
+  const issue = caps
+    ? applyModelCapabilities(
+        after,
+        caps,
+        settings.models[after.model]?.maxTokens ?? settings.defaults.maxTokens,
+        settings.capabilityPolicy,
+      )
+    : null;
+  adapter.mapFields(after, caps, settings);
+
+  const result: ReplayResult = {
+    path: source.path,
+    before,
+    after,
+    diff: diffChatBodies(before, after),
+    issue: issue?.message ?? null,
+    response: null,
+  };
+  if (!opts.send) return result;
+
+  const route = routeModel(after.model, settings);
+  const baseUrl =
+    opts.upstreamUrl ?? route.upstream?.baseUrl ?? config.inferenceUrl;
+  const apiKey =
+    opts.apiKey ??
+    (route.upstream ? upstreamApiKey(route.upstream) : null) ??
+    config.apiKeys[0] ??
+    config.apiKey;
+  const url = `${baseUrl.replace(/\/+$/, "")}/v1/chat/completions`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(
+      route.upstream && !opts.upstreamUrl
+        ? { ...after, model: route.model }
+        : after,
+    ),
+  });
+  result.response = {
+    url,
+    status: res.status,
+    body: capturedBody(await res.text()),
+  };
+  return result;
 }
 
 // ══════════════════════════════════════════════════════════════════════════════
-// FETCH HELPERS
+// MOCK UPSTREAM
 // ══════════════════════════════════════════════════════════════════════════════
 
-async function fetchDoModels(
-  inferenceUrl: string,
-  apiKey: string,
-): Promise<any[] | null> {
-  try {
-    const r = await fetch(`${inferenceUrl}/v1/models`, {
-      method: "GET",
-      headers: { Authorization: `Bearer ${apiKey}` },
-    });
-    if (!r.ok) return null;
-    const j: any = await r.json().catch(() => null);
-    return Array.isArray(j?.data) ? j.data : null;
-  } catch {
-    return null;
-  }
-}
+export type MockStep =
+  | { type: "echo" }
+  | { type: "text"; text: string }
+  | { type: "tool_call"; name: string; arguments?: Record<string, unknown> }
+  | { type: "error"; status: number; retryAfter?: number }
+  // never answers; the caller's own timeout has to fire
+  | { type: "timeout" };
 
-export function normalizeOpenAIChatCompletionsBody(body: any): {
-  changed: boolean;
-} {
-  return normalizeChatCompletionsMessages(body);
-}
+const MOCK_STEP_TYPES: MockStep["type"][] = [
+  "echo",
+  "text",
+  "tool_call",
+  "error",
+  "timeout",
+];
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// The rules DO enforces that have bitten Continue users with 400s. Returns
+// the first violation, worded like DO's own messages, or null.
+export function validateDoStrictness(body: any): string | null {
+  const messages = body?.messages;
+  if (typeof body?.model !== "string" || !body.model)
+    return "model is required";
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return "messages: at least one message is required";
+  }
 
-async function fetchWithRetry(
-  url: string,
-  init: RequestInit,
-  opts: { retries: number; baseDelayMs: number; retryStatuses: Set<number> },
-): Promise<Response> {
-  let lastErr: unknown = null;
+  const calledIds = new Set<string>();
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i];
+    const at = `messages.${i}`;
+    if (m?.role === "assistant") {
+      if (typeof m.content !== "string") {
+        return `${at}.content: assistant content must be a string`;
+      }
+    }
+    const text =
+      typeof m?.content === "string"
+        ? m.content
+        : Array.isArray(m?.content)
+          ? m.content
+              .map((b: any) =>
+                b?.type === "text" ? String(b.text ?? "") : "x",
+              )
+              .join("")
+          : "";
+    if (text.trim().length === 0) {
+      return `${at}: all messages must have non-empty content`;
+    }
 
-  for (let attempt = 0; attempt <= opts.retries; attempt++) {
-    try {
-      const res = await fetch(url, init);
-      if (!opts.retryStatuses.has(res.status) || attempt === opts.retries)
-        return res;
+    if (m?.role === "tool") {
+      if (!calledIds.has(m.tool_call_id)) {
+        return `${at}: unexpected tool result ${m.tool_call_id} with no matching tool_call`;
+      }
+      continue;
+    }
+    if (m?.role !== "assistant" || !Array.isArray(m.tool_calls)) continue;
 
-      const retryAfter = res.headers.get("retry-after");
-      const retryAfterMs =
-        retryAfter && /^\d+$/.test(retryAfter)
-          ? Number(retryAfter) * 1000
-          : null;
-      const delay = retryAfterMs ?? opts.baseDelayMs * Math.pow(2, attempt);
-      console.warn(
-        `⏳ ${res.status} retry in ${delay}ms (${attempt + 1}/${opts.retries})`,
-      );
-      await sleep(delay);
-    } catch (e) {
-      lastErr = e;
-      if (attempt === opts.retries) break;
-      const delay = opts.baseDelayMs * Math.pow(2, attempt);
-      console.warn(
-        `⏳ Error retry in ${delay}ms (${attempt + 1}/${opts.retries})`,
-        e,
-      );
-      await sleep(delay);
+    // every call must be answered right away, in order
+    for (let k = 0; k < m.tool_calls.length; k++) {
+      const id = m.tool_calls[k]?.id;
+      const result = messages[i + 1 + k];
+      if (typeof id !== "string") return `${at}.tool_calls.${k}.id: required`;
+      calledIds.add(id);
+      if (result?.role !== "tool" || result.tool_call_id !== id) {
+        return `${at}: tool_use ids were found without tool_result blocks immediately after: ${id}`;
+      }
     }
   }
+  return null;
+}
 
-  throw lastErr ?? new Error("fetchWithRetry failed");
+function lastUserText(body: any): string {
+  const messages: any[] = Array.isArray(body?.messages) ? body.messages : [];
+  const last = [...messages].reverse().find((m) => m?.role === "user");
+  if (typeof last?.content === "string") return last.content;
+  return Array.isArray(last?.content)
+    ? last.content
+        .filter((b: any) => b?.type === "text")
+        .map((b: any) => b.text)
+        .join("\n")
+    : "";
 }
 
-// ══════════════════════════════════════════════════════════════════════════════
-// PROXY HANDLER
-// ══════════════════════════════════════════════════════════════════════════════
+// `[mock: 429]`, `[mock: timeout]`, `[mock: text Hello]`,
+// `[mock: tool read_file {"path":"a.ts"}]` or `[mock: echo]` in the last user
+// message picks the reply for that one request
+function mockDirective(body: any): MockStep | null {
+  const match = lastUserText(body).match(/\[mock:\s*([^\]]+)\]/);
+  if (!match) return null;
+  const [word = "", ...rest] = match[1]!.trim().split(/\s+/);
+  const arg = rest.join(" ");
+  if (/^\d{3}$/.test(word)) return { type: "error", status: Number(word) };
+  if (word === "timeout") return { type: "timeout" };
+  if (word === "text") return { type: "text", text: arg };
+  if (word === "tool") {
+    const [name = "tool", ...json] = rest;
+    let args: Record<string, unknown> = {};
+    try {
+      args = json.length ? JSON.parse(json.join(" ")) : {};
+    } catch {}
+    return { type: "tool_call", name, arguments: args };
+  }
+  return { type: "echo" };
+}
 
-export function createProxyHandler(config?: {
-  inferenceUrl?: string;
-  apiKey?: string;
-}): (req: Request) => Promise<Response> {
-  const { inferenceUrl, apiKey } = {
-    inferenceUrl: config?.inferenceUrl ?? getConfig().inferenceUrl,
-    apiKey: config?.apiKey ?? getConfig().apiKey,
-  };
+// A fake DO inference server: /v1/models and /v1/chat/completions, with
+// DO's validation, scripted replies and streaming. Steps in `script` are used
+// once each, in order, for requests without a `[mock: …]` directive; after
+// that every reply echoes the last user message.
+export function createMockUpstream(
+  opts: { script?: MockStep[]; chunkDelayMs?: number } = {},
+): (req: Request) => Promise<Response> {
+  const script = [...(opts.script ?? [])];
+  const chunkDelayMs = opts.chunkDelayMs ?? 0;
+  let calls = 0;
 
-  return async function handleRequest(req: Request): Promise<Response> {
+  return async function mockUpstream(req: Request): Promise<Response> {
     const url = new URL(req.url);
-    const path = url.pathname;
-
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    };
 
-    if (req.method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: corsHeaders });
+    if (url.pathname === "/v1/models" && req.method === "GET") {
+      return Response.json({
+        object: "list",
+        data: getProxySettings().fallbackModels,
+      });
     }
-
-    if (path === "/" && req.method === "GET") {
+    if (url.pathname !== "/v1/chat/completions" || req.method !== "POST") {
       return Response.json(
-        { status: "running", target: inferenceUrl },
-        { headers: corsHeaders },
+        openAIError(
+          `Unknown route ${req.method} ${url.pathname}`,
+          "invalid_request_error",
+        ),
+        { status: 404 },
       );
     }
 
-    if (path === "/v1/models" && req.method === "GET") {
-      const remote = await fetchDoModels(inferenceUrl, apiKey);
-      return Response.json(
-        { object: "list", data: remote ?? FALLBACK_MODELS },
-        { headers: corsHeaders },
-      );
+    const body: any = await req.json().catch(() => null);
+    const invalid = validateDoStrictness(body);
+    if (invalid) {
+      return Response.json(openAIError(invalid, "invalid_request_error"), {
+        status: 400,
+      });
     }
 
-    try {
-      let body: any = null;
-      let isStream = false;
-
-      if (
-        req.method === "POST" ||
-        req.method === "PUT" ||
-        req.method === "PATCH"
-      ) {
-        const rawBody = await req.text();
-        if (rawBody) {
-          try {
-            body = JSON.parse(rawBody);
-
-            const originalModel = body.model || "";
-            if (MODEL_MAPPING[originalModel]) {
-              console.log(
-                `🔄 ${originalModel} → ${MODEL_MAPPING[originalModel]}`,
-              );
-              body.model = MODEL_MAPPING[originalModel];
-            }
-
-            if (path === "/v1/chat/completions") {
-              normalizeChatCompletionsMessages(body);
-
-              const hasMax =
-                (typeof body.max_tokens === "number" &&
-                  Number.isFinite(body.max_tokens)) ||
-                (typeof body.max_completion_tokens === "number" &&
-                  Number.isFinite(body.max_completion_tokens));
-              if (!hasMax) body.max_tokens = 8192;
-            }
-
-            if (isAnthropicModel(body.model)) {
-              stripUnsupportedFields(body);
-            }
-
-            isStream = body.stream === true;
-
-            const msgCount = body.messages?.length ?? 0;
-            const tcCount =
-              body.messages?.filter((m: any) => Array.isArray(m.tool_calls))
-                .length ?? 0;
-            const trCount =
-              body.messages?.filter((m: any) => m.role === "tool").length ?? 0;
-
-            console.log(
-              `📤 ${body.model} | ${msgCount} msgs | ${tcCount} tc | ${trCount} tr | stream:${isStream}`,
-            );
-          } catch (e) {
-            console.error("❌ Parse error:", e);
-            body = rawBody;
-          }
-        }
-      }
-
-      const targetUrl = `${inferenceUrl}${path}${url.search}`;
-
-      const proxyResponse = await fetchWithRetry(
-        targetUrl,
-        {
-          method: req.method,
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: body
-            ? typeof body === "string"
-              ? body
-              : JSON.stringify(body)
-            : null,
-        },
+    const step = mockDirective(body) ?? script.shift() ?? { type: "echo" };
+    if (step.type === "timeout") {
+      await new Promise((resolve) =>
+        req.signal.addEventListener("abort", resolve, { once: true }),
+      );
+      return new Response(null, { status: 504 });
+    }
+    if (step.type === "error") {
+      return Response.json(
+        openAIError(
+          step.status === 429
+            ? "Rate limit exceeded"
+            : `Mock upstream error ${step.status}`,
+          step.status === 429 ? "rate_limit_error" : "server_error",
+        ),
         {
-          retries: 2,
-          baseDelayMs: 500,
-          retryStatuses: new Set([429, 500, 502, 503, 504]),
+          status: step.status,
+          headers:
+            step.retryAfter !== undefined
+              ? { "retry-after": String(step.retryAfter) }
+              : {},
         },
       );
+    }
 
-      console.log(`📥 ${proxyResponse.status}`);
-
-      if (!proxyResponse.ok) {
-        const errorText = await proxyResponse.clone().text();
-        console.error("❌ Error:", errorText);
-
-        // Dump full request to file for debugging
-        if (body?.messages) {
-          try {
-            const debugPath = `/tmp/do-proxy-debug-${Date.now()}.json`;
-            writeFileSync(debugPath, JSON.stringify(body, null, 2));
-            console.error(`📝 Full request dumped to: ${debugPath}`);
-          } catch {}
-
-          console.error("\n📋 Messages:");
-          body.messages.forEach((m: any, i: number) => {
-            let info = `  [${i}] ${m.role}`;
-            if (m.role === "tool") info += ` (${m.tool_call_id})`;
-            if (m.tool_calls) info += ` tool_calls:${m.tool_calls.length}`;
-
-            if (typeof m.content === "string") {
-              const empty = m.content.trim().length === 0;
-              info += ` len:${m.content.length}${empty ? " ⚠️EMPTY" : ""}`;
-              if (!empty) info += ` "${m.content.substring(0, 30)}..."`;
-            } else if (Array.isArray(m.content)) {
-              info += ` [${m.content.map((b: any) => b?.type || typeof b).join(",")}]`;
-            } else {
-              info += ` ${typeof m.content} ${m.content === null ? "NULL" : ""}`;
-            }
-            console.error(info);
-          });
-        }
-      }
+    const id = `chatcmpl-mock-${++calls}`;
+    const created = Math.floor(Date.now() / 1000);
+    const content =
+      step.type === "text"
+        ? step.text
+        : step.type === "echo"
+          ? `Echo: ${lastUserText(body)}`
+          : "";
+    const toolCalls =
+      step.type === "tool_call"
+        ? [
+            {
+              id: `call_mock_${calls}`,
+              type: "function",
+              function: {
+                name: step.name,
+                arguments: JSON.stringify(step.arguments ?? {}),
+              },
+            },
+          ]
+        : null;
+    const finishReason = toolCalls ? "tool_calls" : "stop";
+    const promptTokens = estimateTokens(body.messages);
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: estimateTokens(content || toolCalls),
+      total_tokens: promptTokens + estimateTokens(content || toolCalls),
+    };
 
-      if (isStream && proxyResponse.body) {
-        return new Response(proxyResponse.body, {
-          status: proxyResponse.status,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
+    if (body.stream !== true) {
+      return Response.json({
+        id,
+        object: "chat.completion",
+        created,
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content,
+              ...(toolCalls ? { tool_calls: toolCalls } : {}),
+            },
+            finish_reason: finishReason,
           },
-        });
-      }
-
-      const responseData = await proxyResponse.text();
-      let responseBody: any;
-      try {
-        responseBody = JSON.parse(responseData);
-      } catch {
-        responseBody = { raw: responseData };
-      }
-
-      return Response.json(responseBody, {
-        status: proxyResponse.status,
-        headers: corsHeaders,
+        ],
+        usage,
       });
-    } catch (error) {
-      console.error("❌ Proxy error:", error);
-      return Response.json(
-        { error: "Proxy error", message: String(error) },
-        { status: 500, headers: corsHeaders },
+    }
+
+    const chunk = (
+      delta: any,
+      finish: string | null = null,
+      extra: any = {},
+    ) => ({
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finish }],
+      ...extra,
+    });
+    const events: any[] = [chunk({ role: "assistant", content: "" })];
+    for (const piece of content.match(/\S+\s*/g) ?? []) {
+      events.push(chunk({ content: piece }));
+    }
+    if (toolCalls) {
+      events.push(
+        chunk({ tool_calls: toolCalls.map((tc, index) => ({ index, ...tc })) }),
       );
     }
+    events.push(chunk({}, finishReason));
+    if (body.stream_options?.include_usage) {
+      events.push({ ...chunk({}), choices: [], usage });
+    }
+
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        async start(controller) {
+          for (const event of [...events, "[DONE]"]) {
+            if (chunkDelayMs > 0) await sleep(chunkDelayMs);
+            controller.enqueue(encoder.encode(encodeSseEvent(event)));
+          }
+          controller.close();
+        },
+      }),
+      { headers: { "Content-Type": "text/event-stream" } },
+    );
   };
 }
 
@@ -879,30 +7930,234 @@ export function createProxyHandler(config?: {
 // SERVER
 // ══════════════════════════════════════════════════════════════════════════════
 
-export function startProxyServer() {
+// Loads the config file once at startup; an invalid file is fatal
+function loadStartupConfig(): string | null {
+  const configPath = findProxyConfigFile();
+  if (configPath) {
+    const { settings, errors } = loadProxyConfigFile(configPath);
+    if (!settings) {
+      log.error(`❌ Invalid config file ${configPath}:`);
+      for (const err of errors) log.error(`   • ${err}`);
+      process.exit(1);
+    }
+    currentSettings = settings;
+  }
+  return configPath;
+}
+
+// With `mockUpstream`, DO is replaced by an in-process fake (see MOCK UPSTREAM)
+export function startProxyServer(opts: { mockUpstream?: boolean } = {}) {
   const cfg = getConfig();
+  const configPath = loadStartupConfig();
 
-  console.log(`
+  let inferenceUrl = cfg.inferenceUrl;
+  if (opts.mockUpstream) {
+    const mock = Bun.serve({
+      port: 0,
+      idleTimeout: 0,
+      fetch: createMockUpstream(getProxySettings().mockUpstream),
+    });
+    inferenceUrl = `http://localhost:${mock.port}`;
+  }
+
+  const keys = opts.mockUpstream
+    ? "mock upstream, no key needed"
+    : cfg.apiKeys.length > 1
+      ? `${cfg.apiKeys.length} keys`
+      : cfg.apiKey
+        ? maskApiKey(cfg.apiKeys[0] ?? cfg.apiKey)
+        : "NOT SET";
+  // the banner would break line-by-line JSON parsing
+  if (getProxySettings().logging.format === "json") {
+    log.info("🚀 Digital Ocean AI Proxy", {
+      target: inferenceUrl,
+      keys,
+      config: configPath,
+    });
+  } else {
+    process.stdout.write(`
 🚀 Digital Ocean AI Proxy
 ═════════════════════════
-📡 ${cfg.inferenceUrl}
-🔑 ${cfg.apiKey ? cfg.apiKey.slice(0, 8) + "..." : "NOT SET"}
+📡 ${inferenceUrl}${opts.mockUpstream ? " (mock)" : ""}
+🔑 ${keys}
 💡 http://localhost:${cfg.port}/v1
+⚙️  ${configPath ?? "no config file (built-in defaults)"}
 ═════════════════════════
+
 `);
+  }
+
+  watchProxyConfig(configPath);
 
   const server = Bun.serve({
     port: cfg.port,
+    // Bun's default 10s idle timeout would cut streams between heartbeats
+    idleTimeout: 255,
     fetch: createProxyHandler({
-      inferenceUrl: cfg.inferenceUrl,
+      inferenceUrl,
       apiKey: cfg.apiKey,
+      apiKeys: cfg.apiKeys,
     }),
   });
 
-  console.log(`✅ Running on port ${server.port}\n`);
+  log.info(`✅ Running on port ${server.port}`, { port: server.port });
   return server;
 }
 
+// ══════════════════════════════════════════════════════════════════════════════
+// CLI
+// ══════════════════════════════════════════════════════════════════════════════
+
+function cliFlag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+// `bun run index.ts usage-export [--days 30] [--client alice] [--out usage.csv]`
+function exportUsageCsv(args: string[]): void {
+  loadStartupConfig();
+
+  const days = Math.max(1, Number(cliFlag(args, "days")) || 30);
+  const csv = toCsv(
+    usageStats(getProxySettings().usage, days, cliFlag(args, "client")),
+  );
+  const out = cliFlag(args, "out");
+  if (out) {
+    writeFileSync(out, csv);
+    log.info(`📊 Usage for the last ${days} days written to ${out}`);
+  } else {
+    process.stdout.write(csv);
+  }
+}
+
+// `bun run index.ts replay <capture.json> [--messages 0:12] [--send]
+// [--upstream http://localhost:4010] [--out normalized.json]`
+async function replayCommand(args: string[]): Promise<void> {
+  loadStartupConfig();
+
+  const file = args[0];
+  if (!file || file.startsWith("--")) {
+    log.error(
+      "Usage: replay <capture.json> [--messages start:end] [--send] [--upstream url] [--out file]",
+    );
+    process.exitCode = 2;
+    return;
+  }
+  const range = cliFlag(args, "messages")?.split(":");
+  const upstreamUrl = cliFlag(args, "upstream");
+  const result = await replayCapture(JSON.parse(readFileSync(file, "utf8")), {
+    send: args.includes("--send") || !!upstreamUrl,
+    upstreamUrl,
+    messages: range
+      ? [Number(range[0]) || 0, range[1] ? Number(range[1]) : undefined]
+      : undefined,
+  });
+
+  const out = process.stdout;
+  out.write(`🔁 ${file} (${result.path}) → ${result.after.model}\n\n`);
+  out.write(
+    result.diff.length > 0
+      ? `${result.diff.join("\n")}\n\n`
+      : "No changes: the request is already normalised\n\n",
+  );
+  if (result.issue) out.write(`🚫 ${result.issue}\n\n`);
+
+  const normalized = cliFlag(args, "out");
+  if (normalized) {
+    writeFileSync(normalized, JSON.stringify(result.after, null, 2));
+    out.write(`📝 Normalised request written to ${normalized}\n`);
+  }
+
+  if (result.response) {
+    const { url, status, body } = result.response;
+    out.write(`📤 ${url}\n📥 ${status}\n`);
+    out.write(
+      `${typeof body === "string" ? body : JSON.stringify(body, null, 2)}\n`,
+    );
+    // lets `git bisect run` and scripts tell a rejected request apart
+    if (status >= 400) process.exitCode = 1;
+  }
+}
+
+// `bun run index.ts clients add --label alice [--upstream-key dop_v1_…]
+// [--models "anthropic-claude-*,openai-gpt-5"] [--admin]`, `clients list`,
+// `clients remove <id|label>`
+function clientsCommand(args: string[]): void {
+  loadStartupConfig();
+
+  const storePath = getProxySettings().clients.storePath;
+  const [action, target] = args;
+  const out = process.stdout;
+
+  if (action === "add") {
+    const label = cliFlag(args, "label");
+    if (!label) {
+      log.error(
+        "Usage: clients add --label <name> [--upstream-key key] [--models a,b] [--admin]",
+      );
+      process.exitCode = 2;
+      return;
+    }
+    let added: ReturnType<typeof addClientKey>;
+    try {
+      added = addClientKey(storePath, {
+        label,
+        upstreamKey: cliFlag(args, "upstream-key"),
+        models: cliFlag(args, "models")
+          ?.split(",")
+          .map((m) => m.trim())
+          .filter(Boolean),
+        admin: args.includes("--admin"),
+      });
+    } catch (e) {
+      log.error(`🔐 ${e instanceof Error ? e.message : String(e)}`);
+      process.exitCode = 1;
+      return;
+    }
+    const { key, client } = added;
+    out.write(`🔐 Added ${client.label} (${client.id}) to ${storePath}\n`);
+    out.write(`${key}\n`);
+    out.write("This key is shown only once; hand it to the client now.\n");
+  } else if (action === "list") {
+    const keys = readClientKeys(storePath);
+    if (keys.length === 0) out.write(`No client keys in ${storePath}\n`);
+    for (const k of keys) {
+      out.write(
+        [
+          k.id,
+          k.label,
+          `upstream=${k.upstreamKey ? maskApiKey(k.upstreamKey) : "pool"}`,
+          `models=${k.models.length > 0 ? k.models.join(",") : "*"}`,
+          ...(k.admin ? ["admin"] : []),
+          `created=${k.createdAt}`,
+        ].join("  ") + "\n",
+      );
+    }
+  } else if (action === "remove" && target) {
+    const removed = removeClientKey(storePath, target);
+    if (!removed) {
+      log.error(`No client key with id or label ${target}`);
+      process.exitCode = 1;
+      return;
+    }
+    out.write(`🔐 Removed ${removed.label} (${removed.id})\n`);
+  } else {
+    log.error("Usage: clients add|list|remove");
+    process.exitCode = 2;
+  }
+}
+
 if (import.meta.main) {
-  startProxyServer();
+  const [command, ...args] = process.argv.slice(2);
+  if (command === "usage-export") {
+    exportUsageCsv(args);
+  } else if (command === "replay") {
+    await replayCommand(args);
+  } else if (command === "clients") {
+    clientsCommand(args);
+  } else {
+    startProxyServer({
+      mockUpstream: process.argv.includes("--mock-upstream"),
+    });
+  }
 }
@@ -1,5 +1,18 @@
 import { beforeAll, afterAll, describe, expect, test } from "bun:test";
-import { createProxyHandler } from "../index";
+import { createHash } from "crypto";
+import { mkdtempSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addClientKey,
+  createMockUpstream,
+  createProxyHandler,
+  reloadProxyConfig,
+  replayCapture,
+  validateDoStrictness,
+  validateProxyConfig,
+  watchProxyConfig,
+} from "../index";
 
 type UpstreamState = {
   lastBody: any | null;
@@ -225,3 +238,2814 @@ describe("proxy normalizes Continue payloads for Anthropic-backed models", () =>
     expect(state.lastBody.messages.some((m: any) => m.role === "tool")).toBe(false);
   });
 });
+
+describe("Anthropic Messages API (/v1/messages)", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+
+  function sse(chunks: any[]): Response {
+    const text = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+    return new Response(text, { headers: { "content-type": "text/event-stream" } });
+  }
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const url = new URL(req.url);
+        if (url.pathname !== "/v1/chat/completions") return json({ error: { message: "not found" } }, 404);
+        const body: any = await req.json().catch(() => null);
+        state.lastBody = body;
+
+        const err = validateToolOrderingOpenAIStyle(body) ?? (body?.max_tokens > 4096 ? "max_tokens too large" : null);
+        if (err) return json({ error: { message: err } }, 400);
+
+        if (body?.stream) {
+          return sse([
+            { id: "chatcmpl-1", choices: [{ index: 0, delta: { role: "assistant", content: "Hel" } }] },
+            { id: "chatcmpl-1", choices: [{ index: 0, delta: { content: "lo" } }] },
+            {
+              id: "chatcmpl-1",
+              choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "Read", arguments: "{\"file" } }] } }],
+            },
+            {
+              id: "chatcmpl-1",
+              choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: "path\":\"a\"}" } }] } }],
+            },
+            { id: "chatcmpl-1", choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+            { id: "chatcmpl-1", choices: [], usage: { prompt_tokens: 9, completion_tokens: 4 } },
+          ]);
+        }
+
+        return json({
+          id: "chatcmpl-2",
+          object: "chat.completion",
+          model: body?.model,
+          choices: [
+            {
+              index: 0,
+              finish_reason: "tool_calls",
+              message: {
+                role: "assistant",
+                content: "Reading.",
+                tool_calls: [{ id: "call_2", type: "function", function: { name: "Read", arguments: "{\"filepath\":\"b\"}" } }],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 5 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  test("translates system, tool_use/tool_result blocks and stop_sequences", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/messages", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "claude-sonnet",
+          max_tokens: 256,
+          system: [{ type: "text", text: "be brief" }],
+          stop_sequences: ["END"],
+          tools: [{ name: "Read", description: "read", input_schema: { type: "object" } }],
+          messages: [
+            { role: "user", content: "hi" },
+            {
+              role: "assistant",
+              content: [
+                { type: "text", text: "checking" },
+                { type: "tool_use", id: "toolu_1", name: "Read", input: { filepath: "a" } },
+              ],
+            },
+            {
+              role: "user",
+              content: [
+                { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "file a" }] },
+                { type: "text", text: "and b?" },
+              ],
+            },
+          ],
+        }),
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    const sent = state.lastBody;
+    expect(sent.model).toBe("anthropic-claude-4.5-sonnet");
+    expect(sent.messages[0]).toEqual({ role: "system", content: "be brief" });
+    expect(sent.messages[2].tool_calls[0].id).toBe("toolu_1");
+    expect(sent.messages[3]).toEqual({ role: "tool", tool_call_id: "toolu_1", content: "file a" });
+    expect(sent.stop_sequences).toEqual(["END"]);
+    expect(sent.tools[0].function.parameters).toEqual({ type: "object" });
+
+    const out: any = await res.json();
+    expect(out.type).toBe("message");
+    expect(out.model).toBe("anthropic-claude-4.5-sonnet");
+    expect(out.stop_reason).toBe("tool_use");
+    expect(out.content).toEqual([
+      { type: "text", text: "Reading." },
+      { type: "tool_use", id: "call_2", name: "Read", input: { filepath: "b" } },
+    ]);
+    expect(out.usage).toEqual({ input_tokens: 12, output_tokens: 5 });
+  });
+
+  test("re-emits streamed chunks as Anthropic events", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/messages", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "anthropic-claude-haiku-4.5",
+          max_tokens: 64,
+          stream: true,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      }),
+    );
+
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("event:"))
+      .map((e) => JSON.parse(e.slice(e.indexOf("data: ") + 6)));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "message_start",
+      "ping",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[6].content_block).toEqual({ type: "tool_use", id: "call_1", name: "Read", input: {} });
+    expect(events[10].delta.stop_reason).toBe("tool_use");
+    expect(events[10].usage).toEqual({ input_tokens: 9, output_tokens: 4 });
+  });
+
+  test("returns upstream failures as Anthropic error objects", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/messages", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "anthropic-claude-haiku-4.5",
+          max_tokens: 100000,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      }),
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      type: "error",
+      error: { type: "invalid_request_error", message: "max_tokens too large" },
+    });
+  });
+});
+
+describe("OpenAI Responses API (/v1/responses)", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json().catch(() => null);
+        state.lastBody = body;
+
+        const err = validateToolOrderingOpenAIStyle(body);
+        if (err) return json({ error: { message: err } }, 400);
+
+        if (body?.stream) {
+          const chunks = [
+            { choices: [{ index: 0, delta: { role: "assistant", content: "On it" } }] },
+            { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "call_9", function: { name: "ls", arguments: "{}" } }] } }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }], usage: { prompt_tokens: 3, completion_tokens: 4 } },
+          ];
+          return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n", {
+            headers: { "content-type": "text/event-stream" },
+          });
+        }
+
+        return json({
+          id: "chatcmpl-3",
+          model: body?.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "Done." } }],
+          usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  test("translates instructions, function calls and their outputs", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "openai-gpt-5.2",
+          instructions: "be terse",
+          max_output_tokens: 300,
+          tools: [{ type: "function", name: "ls", parameters: { type: "object" } }, { type: "web_search" }],
+          input: [
+            { role: "user", content: [{ type: "input_text", text: "list files" }] },
+            { type: "function_call", call_id: "call_1", name: "ls", arguments: "{}" },
+            { type: "function_call_output", call_id: "call_1", output: "a.ts" },
+          ],
+        }),
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    const sent = state.lastBody;
+    expect(sent.max_completion_tokens).toBe(300);
+    expect(sent.messages[0]).toEqual({ role: "system", content: "be terse" });
+    expect(sent.messages[2].tool_calls[0].id).toBe("call_1");
+    expect(sent.messages[3]).toEqual({ role: "tool", tool_call_id: "call_1", content: "a.ts" });
+    expect(sent.tools).toHaveLength(1);
+
+    const out: any = await res.json();
+    expect(out.object).toBe("response");
+    expect(out.status).toBe("completed");
+    expect(out.output[0].content[0]).toEqual({ type: "output_text", text: "Done.", annotations: [] });
+    expect(out.usage).toEqual({ input_tokens: 10, output_tokens: 2, total_tokens: 12 });
+  });
+
+  test("streams semantic events ending with response.completed", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5.2", stream: true, input: "hi" }),
+      }),
+    );
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("event:"))
+      .map((e) => JSON.parse(e.slice(e.indexOf("data: ") + 6)));
+    const types = events.map((e) => e.type);
+
+    expect(types[0]).toBe("response.created");
+    expect(types).toContain("response.output_text.delta");
+    expect(types).toContain("response.function_call_arguments.delta");
+    expect(types.at(-1)).toBe("response.completed");
+
+    const completed = events.at(-1).response;
+    expect(completed.output.map((o: any) => o.type)).toEqual(["message", "function_call"]);
+    expect(completed.output[1]).toMatchObject({ call_id: "call_9", name: "ls", arguments: "{}", status: "completed" });
+    expect(completed.usage.total_tokens).toBe(7);
+  });
+
+  test("rejects previous_response_id with an invalid_request_error", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5.2", previous_response_id: "resp_1", input: "more" }),
+      }),
+    );
+
+    expect(res.status).toBe(400);
+    const out: any = await res.json();
+    expect(out.error.param).toBe("previous_response_id");
+  });
+});
+
+describe("legacy completions and FIM (/v1/completions)", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  let reply = "";
+  // when set, streams these pieces and holds the last one until `gate` resolves
+  let pieces: string[] | null = null;
+  let gate: Promise<void> = Promise.resolve();
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json().catch(() => null);
+        state.lastBody = body;
+        if (body?.stream && pieces) {
+          const sse = (delta: any, finish_reason: string | null = null) =>
+            `data: ${JSON.stringify({ id: "c1", choices: [{ index: 0, delta, finish_reason }] })}\n\n`;
+          const parts = pieces;
+          return new Response(
+            new ReadableStream({
+              async start(controller) {
+                for (const content of parts.slice(0, -1)) controller.enqueue(sse({ content }));
+                await gate;
+                controller.enqueue(sse({ content: parts.at(-1) }) + sse({}, "stop") + "data: [DONE]\n\n");
+                controller.close();
+              },
+            }),
+            { headers: { "content-type": "text/event-stream" } },
+          );
+        }
+        if (body?.stream) {
+          const pieces = [reply.slice(0, 5), reply.slice(5)];
+          const chunks = pieces.map((content) => ({ id: "c1", choices: [{ index: 0, delta: { content } }] }));
+          chunks.push({ id: "c1", choices: [{ index: 0, delta: {}, finish_reason: "stop" } as any] });
+          return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n", {
+            headers: { "content-type": "text/event-stream" },
+          });
+        }
+        return json({
+          id: "c2",
+          model: body?.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: reply } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  const prompt = "function add(a, b) {\n  const sum = ";
+  const suffix = ";\n  return sum;\n}\n";
+
+  test("builds an infill prompt and strips fences and echoed prefix/suffix", async () => {
+    reply = "```ts\n  const sum = a + b;\n  return sum;\n```";
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "claude-haiku", prompt, suffix, max_tokens: 64, stop: ["\n\n", "```"] }),
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(state.lastBody.messages[1].content).toBe(`${prompt}<FILL_HERE>${suffix}`);
+    expect(state.lastBody.stop_sequences).toEqual(["```"]);
+
+    const out: any = await res.json();
+    expect(out.object).toBe("text_completion");
+    expect(out.choices[0].text).toBe("a + b");
+    expect(out.choices[0].finish_reason).toBe("stop");
+  });
+
+  test("streams the cleaned infill as text_completion chunks", async () => {
+    reply = "a * b";
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5-mini", prompt, suffix, stream: true }),
+      }),
+    );
+
+    const events = (await res.text()).split("\n\n").filter(Boolean).map((e) => e.slice(6));
+    expect(events.at(-1)).toBe("[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+    expect(chunks.map((c) => c.choices[0].text).join("")).toBe("a * b");
+    expect(chunks.at(-1).choices[0].finish_reason).toBe("stop");
+    expect(chunks[0].object).toBe("text_completion");
+  });
+
+  test("streams the same infill it would return buffered, however the reply is chunked", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const complete = async (stream: boolean) => {
+      const res = await handler(
+        new Request("http://proxy.local/v1/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model: "openai-gpt-5-mini", prompt, suffix, stream }),
+        }),
+      );
+      if (!stream) return ((await res.json()) as any).choices[0].text;
+      return (await res.text())
+        .split("\n\n")
+        .filter((e) => e.startsWith("data: {"))
+        .map((e) => JSON.parse(e.slice(6)).choices[0].text)
+        .join("");
+    };
+
+    for (const text of [
+      "```ts\n  const sum = a + b;\n  return sum;\n```",
+      "  const sum = a * b;\n  return sum;",
+      "sum = a + b;\n  return sum;\n}\n",
+      "= a - b",
+      "a % b;\n",
+    ]) {
+      reply = text;
+      pieces = [...text];
+      expect(await complete(true)).toBe(await complete(false));
+    }
+    pieces = null;
+  });
+
+  test("streams settled text before the upstream finishes, trimming fences and echoes", async () => {
+    let release = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    pieces = ["```ts\n  const sum = a", " + b", ";\n  return", " sum;\n```"];
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const res = await handler(
+      new Request("http://proxy.local/v1/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5-mini", prompt, suffix, stream: true }),
+      }),
+    );
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let raw = "";
+    const textOf = (sse: string) =>
+      sse
+        .split("\n\n")
+        .filter((e) => e.startsWith("data: {"))
+        .map((e) => JSON.parse(e.slice(6)).choices[0].text)
+        .join("");
+    // the echoed suffix is still ambiguous here, so only "a + b" may be out
+    while (textOf(raw) !== "a + b") {
+      const { value, done } = await reader.read();
+      if (done) throw new Error("stream ended early");
+      raw += decoder.decode(value, { stream: true });
+    }
+    expect(raw).not.toContain("[DONE]");
+
+    release();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      raw += decoder.decode(value, { stream: true });
+    }
+    pieces = null;
+    expect(textOf(raw)).toBe("a + b");
+    expect(raw.trim().endsWith("data: [DONE]")).toBe(true);
+  });
+});
+
+describe("chat completions stream pipeline", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async () => {
+        // Anthropic-flavoured chunks the way DO sometimes emits them
+        const chunks = [
+          { id: "s1", model: "anthropic-claude-4.5-sonnet", choices: [{ delta: { role: "assistant", content: "Let me look." } }] },
+          { id: "s1", choices: [] },
+          { id: "s1", choices: [{ index: 0, delta: { tool_calls: [{ id: "toolu_a", function: { name: "Read", arguments: "{\"a\":" } }] } }] },
+          { id: "s1", choices: [{ index: 0, delta: { tool_calls: [{ function: { arguments: "1}" } }] } }] },
+          { id: "s1", choices: [{ index: 0, delta: { tool_calls: [{ id: "toolu_b", function: { name: "Read", arguments: "{}" } }] } }] },
+          { id: "s1", choices: [{ index: 0, delta: {}, finish_reason: "tool_use" }] },
+        ];
+        return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\r\n\r\n`).join(""), {
+          headers: { "content-type": "text/event-stream" },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  test("repairs chunks to OpenAI's schema and terminates with [DONE]", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "anthropic-claude-4.5-sonnet", stream: true, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+    const events = (await res.text()).split("\n\n").filter(Boolean).map((e) => e.slice(6));
+    expect(events.at(-1)).toBe("[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+
+    expect(chunks).toHaveLength(5);
+    for (const c of chunks) {
+      expect(c.object).toBe("chat.completion.chunk");
+      expect(c.choices[0].index).toBe(0);
+    }
+    expect(chunks[0].model).toBe("anthropic-claude-4.5-sonnet");
+    expect(chunks[1].choices[0].delta.tool_calls[0].index).toBe(0);
+    expect(chunks[2].choices[0].delta.tool_calls[0].index).toBe(0);
+    expect(chunks[3].choices[0].delta.tool_calls[0].index).toBe(1);
+    expect(chunks[4].choices[0].finish_reason).toBe("tool_calls");
+  });
+});
+
+describe("upstream timeouts and client disconnects", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let hits = 0;
+  let upstreamAborted = false;
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        hits++;
+        const body: any = await req.json().catch(() => null);
+        req.signal.addEventListener("abort", () => {
+          upstreamAborted = true;
+        });
+
+        if (body?.model === "openai-gpt-4o") {
+          return json({ error: { message: "prompt is too long" } }, 400);
+        }
+
+        if (body?.stream && body.model === "openai-gpt-5-mini") {
+          // slow first token, then a normal finish
+          return new Response(
+            new ReadableStream({
+              async start(controller) {
+                await Bun.sleep(250);
+                controller.enqueue(
+                  new TextEncoder().encode(
+                    `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: "hi" }, finish_reason: "stop" }] })}\n\ndata: [DONE]\n\n`,
+                  ),
+                );
+                controller.close();
+              },
+            }),
+            { headers: { "content-type": "text/event-stream" } },
+          );
+        }
+
+        if (body?.stream) {
+          // one chunk, then silence
+          return new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(
+                  new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: "a" } }] })}\n\n`),
+                );
+              },
+            }),
+            { headers: { "content-type": "text/event-stream" } },
+          );
+        }
+
+        await Bun.sleep(400);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "late" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop(true);
+  });
+
+  function chatRequest(stream: boolean, signal?: AbortSignal): Request {
+    return new Request("http://proxy.local/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ model: "openai-gpt-5.2", stream, messages: [{ role: "user", content: "hi" }] }),
+      signal,
+    });
+  }
+
+  test("returns a first-byte timeout error without retrying", async () => {
+    hits = 0;
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", timeouts: { firstByteMs: 100 } });
+    const res = await handler(chatRequest(false));
+
+    expect(res.status).toBe(504);
+    const out: any = await res.json();
+    expect(out.error.type).toBe("timeout_error");
+    expect(out.error.code).toBe("upstream_first_byte_timeout");
+    expect(hits).toBe(1);
+  });
+
+  test("emits a stream-idle timeout error event and closes the stream", async () => {
+    const handler = createProxyHandler({
+      inferenceUrl: upstreamUrl,
+      apiKey: "test",
+      modelTimeouts: { "openai-gpt-5.2": { streamIdleMs: 100 } },
+    });
+    const res = await handler(chatRequest(true));
+
+    const events = (await res.text()).split("\n\n").filter(Boolean).map((e) => e.slice(6));
+    expect(events.at(-1)).toBe("[DONE]");
+    expect(JSON.parse(events.at(-2)!).error.code).toBe("upstream_stream_idle_timeout");
+  });
+
+  test("aborts the upstream request when the client disconnects", async () => {
+    upstreamAborted = false;
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const client = new AbortController();
+    setTimeout(() => client.abort(), 50);
+    const res = await handler(chatRequest(false, client.signal));
+
+    expect(res.status).toBe(499);
+    await Bun.sleep(50);
+    expect(upstreamAborted).toBe(true);
+  });
+
+  test("passes upstream errors on streaming requests through to every API", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const send = (path: string, body: any) =>
+      handler(
+        new Request(`http://proxy.local${path}`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model: "openai-gpt-4o", stream: true, ...body }),
+        }),
+      );
+
+    const messages = [{ role: "user", content: "hi" }];
+    for (const [path, body] of [
+      ["/v1/chat/completions", { messages }],
+      ["/v1/messages", { max_tokens: 64, messages }],
+      ["/v1/responses", { input: "hi" }],
+      ["/v1/completions", { prompt: "hi" }],
+    ] as const) {
+      const res = await send(path, body);
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain("prompt is too long");
+    }
+  });
+
+  test("aborts the upstream when a client drops a converted stream", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const messages = [{ role: "user", content: "hi" }];
+    for (const [path, body] of [
+      ["/v1/messages", { max_tokens: 64, messages }],
+      ["/v1/responses", { input: "hi" }],
+      ["/v1/completions", { prompt: "hi" }],
+    ] as const) {
+      upstreamAborted = false;
+      const res = await handler(
+        new Request(`http://proxy.local${path}`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model: "openai-gpt-5.2", stream: true, ...body }),
+        }),
+      );
+      const reader = res.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+      await Bun.sleep(50);
+      expect(upstreamAborted).toBe(true);
+    }
+  });
+
+  test("keeps a stream to a model that cannot stream alive while it answers in one piece", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 50 });
+    const res = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5.2-pro", stream: true, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+    const events = (await res.text()).split("\n\n").filter(Boolean);
+    const firstData = events.findIndex((e) => e.startsWith("data:"));
+    expect(firstData).toBeGreaterThanOrEqual(2);
+    expect(events.slice(0, firstData).every((e) => e === ": ping")).toBe(true);
+    expect(events[firstData]).toContain('"content":"late"');
+    expect(events.at(-1)).toBe("data: [DONE]");
+  });
+
+  test("sends SSE heartbeats until the first upstream chunk arrives", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 50 });
+    const res = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "openai-gpt-5-mini", stream: true, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+    const events = (await res.text()).split("\n\n").filter(Boolean);
+    const firstData = events.findIndex((e) => e.startsWith("data:"));
+    expect(firstData).toBeGreaterThanOrEqual(2);
+    expect(events.slice(0, firstData).every((e) => e === ": ping")).toBe(true);
+    expect(events.slice(firstData).includes(": ping")).toBe(false);
+    expect(events.at(-1)).toBe("data: [DONE]");
+  });
+});
+
+describe("configuration file", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-config-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        state.lastBody = await req.json().catch(() => null);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  test("reports every invalid field with its path", () => {
+    const { settings, errors } = validateProxyConfig({
+      modelMapping: { fast: "" },
+      retry: { retries: -1, retryStatuses: [429, "500"] },
+      timeouts: { firstByteMs: 1.5 },
+      models: { "openai-gpt-5.2": { maxTokens: 0, temperature: 1 } },
+      aliases: {},
+    });
+
+    expect(settings).toBeNull();
+    expect(errors).toHaveLength(7);
+    expect(errors.some((e) => e.startsWith("aliases: unknown key"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("modelMapping.fast:"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("retry.retries:"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("retry.retryStatuses:"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("timeouts.firstByteMs:"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("models.openai-gpt-5.2.maxTokens:"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("models.openai-gpt-5.2.temperature: unknown key"))).toBe(true);
+  });
+
+  test("reloaded YAML applies to the next request and bad files are ignored", async () => {
+    const file = join(dir, "do-proxy.config.yaml");
+    writeFileSync(file, "modelMapping:\n  fast: openai-gpt-5-mini\nmodels:\n  openai-gpt-5-mini:\n    maxTokens: 1234\n");
+    expect(reloadProxyConfig(file)).toBe(true);
+
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const send = () =>
+      handler(
+        new Request("http://proxy.local/v1/chat/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model: "fast", messages: [{ role: "user", content: "hi" }] }),
+        }),
+      );
+
+    await send();
+    expect(state.lastBody.model).toBe("openai-gpt-5-mini");
+    expect(state.lastBody.max_completion_tokens).toBe(1234);
+
+    writeFileSync(file, "retry: { retries: lots }\n");
+    expect(reloadProxyConfig(file)).toBe(false);
+    await send();
+    expect(state.lastBody.model).toBe("openai-gpt-5-mini");
+  });
+
+  test("keeps watching through saves that rename a temp file over the config", async () => {
+    const watched = mkdtempSync(join(dir, "watched-"));
+    const file = join(watched, "do-proxy.config.json");
+    writeFileSync(file, "{}");
+    const stop = watchProxyConfig(file);
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const mapping = async () => ((await (await handler(new Request("http://proxy.local/debug/aliases"))).json()) as any).mapping;
+    const saveByRename = (target: string) => {
+      const temp = join(watched, ".do-proxy.config.json.swp");
+      writeFileSync(temp, JSON.stringify({ modelMapping: { fast: target } }));
+      renameSync(temp, file);
+    };
+    const waitFor = async (target: string) => {
+      for (let i = 0; i < 100 && (await mapping()).fast !== target; i++) await Bun.sleep(20);
+      return (await mapping()).fast;
+    };
+
+    try {
+      saveByRename("openai-gpt-5-mini");
+      expect(await waitFor("openai-gpt-5-mini")).toBe("openai-gpt-5-mini");
+      saveByRename("anthropic-claude-haiku-4.5");
+      expect(await waitFor("anthropic-claude-haiku-4.5")).toBe("anthropic-claude-haiku-4.5");
+    } finally {
+      stop();
+    }
+  });
+});
+
+describe("pattern and latest model aliases", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-alias-"));
+  let stallModels = false;
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        if (new URL(req.url).pathname === "/v1/models") {
+          if (stallModels) await Bun.sleep(1000);
+          return json({
+            object: "list",
+            data: [
+              "anthropic-claude-4.5-sonnet",
+              "anthropic-claude-sonnet-4.6",
+              "anthropic-claude-haiku-4.5",
+              "openai-gpt-5-mini",
+              "openai-gpt-5.5-mini",
+              "openai-gpt-5.2",
+              "openai-gpt-5.2-pro",
+            ].map((id) => ({ id })),
+          });
+        }
+        state.lastBody = await req.json().catch(() => null);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    const file = join(dir, "aliases.json");
+    writeFileSync(file, JSON.stringify({ aliasRules: [{ alias: "/^gpt-(\\d[\\d.]*)$/", target: "openai-gpt-$1" }] }));
+    reloadProxyConfig(file);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop(true);
+  });
+
+  async function resolved(handler: (req: Request) => Promise<Response>, model: string): Promise<string> {
+    await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+    return state.lastBody.model;
+  }
+
+  test("resolves symbolic and regex aliases to the newest live model", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+
+    expect(await resolved(handler, "claude-sonnet-latest")).toBe("anthropic-claude-sonnet-4.6");
+    expect(await resolved(handler, "gpt-latest-mini")).toBe("openai-gpt-5.5-mini");
+    expect(await resolved(handler, "gpt-latest")).toBe("openai-gpt-5.2");
+    expect(await resolved(handler, "gpt-5.2")).toBe("openai-gpt-5.2");
+    expect(await resolved(handler, "claude-sonnet")).toBe("anthropic-claude-4.5-sonnet");
+    expect(await resolved(handler, "openai-gpt-5.2-pro")).toBe("openai-gpt-5.2-pro");
+  });
+
+  test("exposes current resolutions on /debug/aliases", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const res = await handler(new Request("http://proxy.local/debug/aliases"));
+    const out: any = await res.json();
+
+    expect(out.source).toBe("live");
+    expect(out.rules[0]).toEqual({ alias: "/^gpt-(\\d[\\d.]*)$/", target: "openai-gpt-$1", resolved: null });
+    expect(out.rules.find((r: any) => r.alias === "claude-opus-latest").resolved).toBeNull();
+    expect(out.rules.find((r: any) => r.alias === "claude-haiku-latest").resolved).toBe("anthropic-claude-haiku-4.5");
+  });
+
+  test("re-resolves when a config reload changes the rules", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const file = join(dir, "fast.json");
+    writeFileSync(file, JSON.stringify({ aliasRules: [{ alias: "fast", target: "openai-gpt-5-mini" }] }));
+    reloadProxyConfig(file);
+    expect(await resolved(handler, "fast")).toBe("openai-gpt-5-mini");
+
+    writeFileSync(file, JSON.stringify({ aliasRules: [{ alias: "fast", target: "anthropic-claude-haiku-4.5" }] }));
+    reloadProxyConfig(file);
+    expect(await resolved(handler, "fast")).toBe("anthropic-claude-haiku-4.5");
+  });
+
+  test("gives up on a stalled model list after the first-byte timeout", async () => {
+    stallModels = true;
+    try {
+      const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", timeouts: { firstByteMs: 100 } });
+      const started = performance.now();
+      const res = await handler(new Request("http://proxy.local/v1/models"));
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as any).data.length).toBeGreaterThan(0);
+
+      // the alias falls back to the built-in model list instead of hanging
+      expect(await resolved(handler, "claude-haiku-latest")).toStartWith("anthropic-claude-haiku");
+      expect(performance.now() - started).toBeLessThan(800);
+    } finally {
+      stallModels = false;
+    }
+  });
+});
+
+describe("model capability registry", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-caps-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        if (new URL(req.url).pathname === "/v1/models") return json({ object: "list", data: [] }, 500);
+        state.lastBody = await req.json().catch(() => null);
+        return json({
+          id: "chatcmpl-pro",
+          model: state.lastBody.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "Done" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const image = { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } };
+  const chat = (handler: (req: Request) => Promise<Response>, body: any) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  test("clamps max_tokens to the model's output limit", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    await chat(handler, {
+      model: "anthropic-claude-opus-4.6",
+      max_tokens: 100_000,
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(state.lastBody.max_tokens).toBe(32_000);
+  });
+
+  test("rejects images for text-only models, or downgrades them when configured", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    state.lastBody = null;
+    const messages = [{ role: "user", content: [{ type: "text", text: "what is this?" }, image] }];
+
+    const res = await chat(handler, { model: "openai-gpt-oss-120b", messages });
+    expect(res.status).toBe(400);
+    const err: any = await res.json();
+    expect(err.error.type).toBe("invalid_request_error");
+    expect(err.error.param).toBe("messages");
+    expect(state.lastBody).toBeNull();
+
+    const file = join(dir, "downgrade.json");
+    writeFileSync(file, JSON.stringify({ capabilityPolicy: "downgrade" }));
+    expect(reloadProxyConfig(file)).toBe(true);
+
+    expect((await chat(handler, { model: "openai-gpt-oss-120b", messages })).status).toBe(200);
+    expect(state.lastBody.messages[0].content).toBe("what is this?\n[image omitted: model does not support images]");
+  });
+
+  test("buffers non-streaming models and replays them as SSE", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const res = await chat(handler, {
+      model: "openai-gpt-5.2-pro",
+      stream: true,
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(state.lastBody.stream).toBe(false);
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const text = await res.text();
+    expect(text).toContain('"content":"Done"');
+    expect(text.trim().endsWith("data: [DONE]")).toBe(true);
+  });
+
+  test("lists capabilities on /v1/models, including config overrides", async () => {
+    const file = join(dir, "override.json");
+    writeFileSync(file, JSON.stringify({ models: { "openai-gpt-5-mini": { capabilities: { vision: false } } } }));
+    expect(reloadProxyConfig(file)).toBe(true);
+
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const out: any = await (await handler(new Request("http://proxy.local/v1/models"))).json();
+    const mini = out.data.find((m: any) => m.id === "openai-gpt-5-mini");
+    expect(mini.context_window).toBe(400_000);
+    expect(mini.capabilities).toEqual({ vision: false, tools: true, reasoning: true, streaming: true });
+
+    expect(validateProxyConfig({ models: { x: { capabilities: { vision: "yes" } } } }).errors).toEqual([
+      "models.x.capabilities.vision: expected true or false",
+    ]);
+  });
+});
+
+describe("provider adapters", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        state.lastBody = await req.json().catch(() => null);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  const send = (body: any) =>
+    createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" })(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  const messages = [
+    { role: "developer", content: "be terse" },
+    { role: "user", content: "hi" },
+  ];
+
+  test("maps fields for OpenAI reasoning models", async () => {
+    await send({
+      model: "openai-gpt-5.2-pro",
+      messages,
+      max_tokens: 2048,
+      temperature: 0.2,
+      top_p: 1,
+      presence_penalty: 0.5,
+      thinking: { type: "enabled", budget_tokens: 8000 },
+    });
+
+    const sent = state.lastBody;
+    expect(sent.max_tokens).toBeUndefined();
+    expect(sent.max_completion_tokens).toBe(2048);
+    expect(sent.temperature).toBeUndefined();
+    expect(sent.top_p).toBe(1);
+    expect(sent.presence_penalty).toBeUndefined();
+    expect(sent.thinking).toBeUndefined();
+    expect(sent.reasoning_effort).toBe("medium");
+    expect(sent.messages[0]).toEqual({ role: "system", content: "be terse" });
+  });
+
+  test("keeps max_tokens for open-weights models and Anthropic", async () => {
+    await send({ model: "openai-gpt-oss-120b", messages, max_completion_tokens: 512, reasoning_effort: "minimal" });
+    expect(state.lastBody.max_tokens).toBe(512);
+    expect(state.lastBody.max_completion_tokens).toBeUndefined();
+    expect(state.lastBody.reasoning_effort).toBe("low");
+
+    await send({ model: "anthropic-claude-haiku-4.5", messages, max_completion_tokens: 512, temperature: 0.2, seed: 1 });
+    expect(state.lastBody.max_tokens).toBe(512);
+    expect(state.lastBody.temperature).toBe(0.2);
+    expect(state.lastBody.seed).toBeUndefined();
+    expect(state.lastBody.messages[0].role).toBe("system");
+  });
+
+  test("drops reasoning_effort for Anthropic, including from Responses requests", async () => {
+    await send({ model: "anthropic-claude-haiku-4.5", messages, reasoning_effort: "high" });
+    expect(state.lastBody.reasoning_effort).toBeUndefined();
+
+    await createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" })(
+      new Request("http://proxy.local/v1/responses", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "anthropic-claude-4.5-sonnet", input: "hi", reasoning: { effort: "low" } }),
+      }),
+    );
+    expect(state.lastBody.model).toBe("anthropic-claude-4.5-sonnet");
+    expect(state.lastBody.reasoning_effort).toBeUndefined();
+  });
+});
+
+describe("model fallback chains", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const seen: string[] = [];
+  const bodies: any[] = [];
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-fallback-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json();
+        seen.push(body.model);
+        bodies.push(body);
+        if (body.model !== "anthropic-claude-haiku-4.5") {
+          return json({ error: { message: "overloaded" } }, 503);
+        }
+        if (body.stream) {
+          const chunk = { id: "c1", model: body.model, choices: [{ index: 0, delta: { content: "hi" }, finish_reason: "stop" }] };
+          return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+            headers: { "content-type": "text/event-stream" },
+          });
+        }
+        return json({
+          id: "c1",
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "hi" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    const file = join(dir, "fallback.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        retry: { retries: 0 },
+        models: {
+          "openai-gpt-5.2": { fallbacks: ["anthropic-claude-4.5-sonnet", "anthropic-claude-haiku-4.5"] },
+          "anthropic-claude-3.7-sonnet": { fallbacks: ["openai-gpt-5", "anthropic-claude-haiku-4.5"] },
+        },
+      }),
+    );
+    reloadProxyConfig(file);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const send = (path: string, body: any) =>
+    createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 })(
+      new Request(`http://proxy.local${path}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  test("walks the chain on retryable failures and reports the served model", async () => {
+    seen.length = 0;
+    const res = await send("/v1/messages", {
+      model: "anthropic-claude-4.5-sonnet",
+      max_tokens: 64,
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(seen).toEqual(["anthropic-claude-4.5-sonnet", "anthropic-claude-haiku-4.5"]);
+    expect(res.headers.get("x-served-model")).toBe("anthropic-claude-haiku-4.5");
+    const out: any = await res.json();
+    expect(out.model).toBe("anthropic-claude-haiku-4.5");
+  });
+
+  test("re-targets the body for each fallback, including streams", async () => {
+    seen.length = 0;
+    const res = await send("/v1/chat/completions", {
+      model: "openai-gpt-5.2",
+      stream: true,
+      max_tokens: 100,
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(seen).toEqual(["openai-gpt-5.2", "anthropic-claude-4.5-sonnet", "anthropic-claude-haiku-4.5"]);
+    expect(res.headers.get("x-served-model")).toBe("anthropic-claude-haiku-4.5");
+    expect(await res.text()).toContain('"model":"anthropic-claude-haiku-4.5"');
+  });
+
+  test("maps each fallback from the client's body, not the previous family's", async () => {
+    seen.length = 0;
+    bodies.length = 0;
+    const res = await send("/v1/chat/completions", {
+      model: "anthropic-claude-3.7-sonnet",
+      max_tokens: 64,
+      stop: ["END"],
+      tools: [{ type: "function", function: { name: "Read", parameters: { type: "object", properties: {} } } }],
+      tool_choice: { type: "function", function: { name: "Read" } },
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(seen).toEqual(["anthropic-claude-3.7-sonnet", "openai-gpt-5", "anthropic-claude-haiku-4.5"]);
+    const [primary, openai, haiku] = bodies;
+    expect(primary.stop_sequences).toEqual(["END"]);
+    expect(openai.stop).toEqual(["END"]);
+    expect(openai.stop_sequences).toBeUndefined();
+    expect(openai.tool_choice).toEqual({ type: "function", function: { name: "Read" } });
+    expect(haiku.stop_sequences).toEqual(["END"]);
+    expect(haiku.tool_choice).toEqual({ type: "tool", name: "Read" });
+  });
+
+  test("returns the last error once the chain is exhausted", async () => {
+    seen.length = 0;
+    const res = await send("/v1/chat/completions", {
+      model: "anthropic-claude-opus-4.6",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(res.status).toBe(503);
+    expect(seen).toEqual(["anthropic-claude-opus-4.6", "anthropic-claude-4.5-sonnet"]);
+  });
+});
+
+describe("API key pool", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const used: string[] = [];
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const key = (req.headers.get("authorization") ?? "").replace("Bearer ", "");
+        used.push(key);
+        if (key === "key-throttled-0001") {
+          return new Response(JSON.stringify({ error: { message: "slow down" } }), {
+            status: 429,
+            headers: { "content-type": "application/json", "retry-after": "60" },
+          });
+        }
+        if (key === "key-revoked-00002") return json({ error: { message: "bad key" } }, 401);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  const chat = (handler: (req: Request) => Promise<Response>) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model: "anthropic-claude-haiku-4.5", messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+  test("moves throttled and rejected keys aside without backing off", async () => {
+    const handler = createProxyHandler({
+      inferenceUrl: upstreamUrl,
+      apiKeys: ["key-throttled-0001", "key-revoked-00002", "key-healthy-00003"],
+    });
+
+    const started = performance.now();
+    expect((await chat(handler)).status).toBe(200);
+    expect(used).toEqual(["key-throttled-0001", "key-revoked-00002", "key-healthy-00003"]);
+    expect(performance.now() - started).toBeLessThan(400);
+
+    used.length = 0;
+    expect((await chat(handler)).status).toBe(200);
+    expect(used).toEqual(["key-healthy-00003"]);
+  });
+
+  test("reports masked per-key status on /debug/keys", async () => {
+    const handler = createProxyHandler({
+      inferenceUrl: upstreamUrl,
+      apiKeys: ["key-throttled-0001", "key-healthy-00003"],
+    });
+    await chat(handler);
+
+    const out: any = await (await handler(new Request("http://proxy.local/debug/keys"))).json();
+    expect(out.selection).toBe("round-robin");
+    expect(out.keys.map((k: any) => [k.key, k.status])).toEqual([
+      ["…0001", "cooldown"],
+      ["…0003", "ok"],
+    ]);
+    expect(out.keys[0].cooldownRemainingMs).toBeGreaterThan(50_000);
+    expect(JSON.stringify(out)).not.toContain("key-healthy");
+  });
+});
+
+describe("upstream registry", () => {
+  let doServer: ReturnType<typeof Bun.serve> | null = null;
+  let localServer: ReturnType<typeof Bun.serve> | null = null;
+  let doUrl = "";
+  const hits: { upstream: string; auth: string | null; body: any }[] = [];
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-upstreams-"));
+
+  const stub = (upstream: string, models: string[]) =>
+    Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        if (new URL(req.url).pathname === "/v1/models") {
+          return json({ object: "list", data: models.map((id) => ({ id, object: "model" })) });
+        }
+        const body: any = await req.json();
+        hits.push({ upstream, auth: req.headers.get("authorization"), body });
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: upstream } }],
+        });
+      },
+    });
+
+  beforeAll(() => {
+    doServer = stub("do", ["anthropic-claude-haiku-4.5"]);
+    localServer = stub("local", ["llama3.1", "qwen2.5-coder"]);
+    doUrl = `http://localhost:${doServer.port}`;
+
+    process.env.TEST_LOCAL_KEY = "local-secret";
+    const file = join(dir, "upstreams.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        upstreams: {
+          local: {
+            baseUrl: `http://localhost:${localServer.port}/`,
+            apiKeyEnv: "TEST_LOCAL_KEY",
+            adapter: "oss",
+            prefixes: ["local/"],
+            stripPrefix: true,
+          },
+        },
+      }),
+    );
+    expect(reloadProxyConfig(file)).toBe(true);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    delete process.env.TEST_LOCAL_KEY;
+    doServer?.stop();
+    localServer?.stop();
+  });
+
+  test("routes by prefix with the backend's own URL, key and adapter", async () => {
+    const handler = createProxyHandler({ inferenceUrl: doUrl, apiKey: "do-key" });
+    const send = (model: string) =>
+      handler(
+        new Request("http://proxy.local/v1/chat/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model, max_completion_tokens: 99, messages: [{ role: "user", content: "hi" }] }),
+        }),
+      );
+
+    hits.length = 0;
+    await send("local/llama3.1");
+    await send("anthropic-claude-haiku-4.5");
+
+    expect(hits.map((h) => [h.upstream, h.auth, h.body.model])).toEqual([
+      ["local", "Bearer local-secret", "llama3.1"],
+      ["do", "Bearer do-key", "anthropic-claude-haiku-4.5"],
+    ]);
+    expect(hits[0]!.body.max_tokens).toBe(99);
+  });
+
+  test("merges /v1/models across upstreams", async () => {
+    const handler = createProxyHandler({ inferenceUrl: doUrl, apiKey: "do-key" });
+    const out: any = await (await handler(new Request("http://proxy.local/v1/models"))).json();
+
+    expect(out.data.map((m: any) => [m.id, m.upstream])).toEqual([
+      ["anthropic-claude-haiku-4.5", "digitalocean"],
+      ["local/llama3.1", "local"],
+      ["local/qwen2.5-coder", "local"],
+    ]);
+  });
+
+  test("rejects invalid upstream definitions", () => {
+    const { errors } = validateProxyConfig({
+      upstreams: { digitalocean: { baseUrl: "http://x" }, bad: { baseUrl: "ftp://x", adapter: "llama" } },
+    });
+    expect(errors).toEqual([
+      "upstreams.digitalocean: reserved for DO_INFERENCE_URL; pick another name",
+      "upstreams.bad.baseUrl: expected an http(s) URL",
+      'upstreams.bad.adapter: expected "anthropic", "openai" or "oss"',
+    ]);
+  });
+});
+
+describe("circuit breaker", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let healthy = false;
+  let calls = 0;
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-breaker-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = JSON.parse(await req.text());
+        calls++;
+        if (body.model === "openai-gpt-5") return json({ error: { message: "slow down" } }, 429);
+        if (body.stream) {
+          // one chunk, then silence until the proxy's idle timeout fires
+          const encoder = new TextEncoder();
+          return new Response(
+            new ReadableStream({
+              async start(controller) {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ id: "c1", choices: [{ index: 0, delta: { content: "Hi" } }] })}\n\n`));
+                await Bun.sleep(300);
+                controller.close();
+              },
+            }),
+            { headers: { "content-type": "text/event-stream" } },
+          );
+        }
+        if (!healthy) return json({ error: { message: "down" } }, 500);
+        return json({ choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }] });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    const file = join(dir, "breaker.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ retry: { retries: 0 }, circuitBreaker: { failureThreshold: 2, openMs: 150 } }),
+    );
+    reloadProxyConfig(file);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  test("opens after consecutive failures, fails fast, then recovers through a probe", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const send = () =>
+      handler(
+        new Request("http://proxy.local/v1/chat/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model: "openai-gpt-5-mini", messages: [{ role: "user", content: "hi" }] }),
+        }),
+      );
+
+    expect((await send()).status).toBe(500);
+    expect((await send()).status).toBe(500);
+
+    const fast = await send();
+    expect(fast.status).toBe(503);
+    expect(fast.headers.get("retry-after")).toBe("1");
+    const err: any = await fast.json();
+    expect(err.error.code).toBe("circuit_open");
+    expect(calls).toBe(2);
+
+    const status: any = await (await handler(new Request("http://proxy.local/"))).json();
+    expect(status.circuits).toEqual([
+      expect.objectContaining({ circuit: "digitalocean/openai-gpt-5-mini", state: "open", consecutiveFailures: 2 }),
+    ]);
+
+    healthy = true;
+    await Bun.sleep(200);
+    expect((await send()).status).toBe(200);
+    const after: any = await (await handler(new Request("http://proxy.local/"))).json();
+    expect(after.circuits[0].state).toBe("closed");
+  });
+
+  test("counts upstream 429s and stalled streams as failures", async () => {
+    const handler = createProxyHandler({
+      inferenceUrl: upstreamUrl,
+      apiKey: "test",
+      heartbeatIntervalMs: 0,
+      timeouts: { streamIdleMs: 50 },
+    });
+    const send = (model: string, stream = false) =>
+      handler(
+        new Request("http://proxy.local/v1/chat/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ model, stream, messages: [{ role: "user", content: "hi" }] }),
+        }),
+      );
+
+    expect((await send("openai-gpt-5")).status).toBe(429);
+    expect((await send("openai-gpt-5")).status).toBe(429);
+    expect((await send("openai-gpt-5")).status).toBe(503);
+
+    for (let i = 0; i < 2; i++) {
+      const res = await send("anthropic-claude-haiku-4.5", true);
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain("stream_idle_timeout");
+    }
+    expect((await send("anthropic-claude-haiku-4.5", true)).status).toBe(503);
+  });
+});
+
+describe("response cache", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let calls = 0;
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-cache-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json();
+        calls++;
+        if (body.stream) {
+          const chunks = [
+            { id: "c1", model: body.model, choices: [{ index: 0, delta: { role: "assistant", content: "Hel" }, finish_reason: null }] },
+            { id: "c1", model: body.model, choices: [{ index: 0, delta: { content: "lo" }, finish_reason: "stop" }] },
+          ];
+          return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n", {
+            headers: { "content-type": "text/event-stream" },
+          });
+        }
+        return json({
+          id: "c1",
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "Hello" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    const file = join(dir, "cache.json");
+    writeFileSync(file, JSON.stringify({ cache: { enabled: true, dir: join(dir, "entries") } }));
+    reloadProxyConfig(file);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const send = (handler: (req: Request) => Promise<Response>, body: any, headers: Record<string, string> = {}) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify({ model: "anthropic-claude-haiku-4.5", messages: [{ role: "user", content: "hi" }], ...body }),
+      }),
+    );
+
+  test("serves repeated temperature-0 requests from disk, streamed or not", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    calls = 0;
+
+    const first = await send(handler, { temperature: 0, stream: true });
+    expect(first.headers.get("x-proxy-cache")).toBe("miss");
+    await first.text();
+
+    const again = await send(handler, { temperature: 0 });
+    expect(again.headers.get("x-proxy-cache")).toBe("hit");
+    const out: any = await again.json();
+    expect(out.choices[0].message.content).toBe("Hello");
+
+    const replay = await send(handler, { temperature: 0, stream: true });
+    expect(replay.headers.get("x-proxy-cache")).toBe("hit");
+    expect(replay.headers.get("content-type")).toContain("text/event-stream");
+    const text = await replay.text();
+    expect(text).toContain('"content":"Hello"');
+    expect(text.trim().endsWith("data: [DONE]")).toBe(true);
+    expect(calls).toBe(1);
+  });
+
+  test("skips sampled requests unless opted in, and purges on DELETE /cache", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    calls = 0;
+
+    const sampled = await send(handler, { temperature: 0.7 });
+    expect(sampled.headers.get("x-proxy-cache")).toBeNull();
+
+    expect((await send(handler, { temperature: 0.7 }, { "x-proxy-cache": "use" })).headers.get("x-proxy-cache")).toBe("miss");
+    expect((await send(handler, { temperature: 0.7 }, { "x-proxy-cache": "use" })).headers.get("x-proxy-cache")).toBe("hit");
+    expect(calls).toBe(2);
+
+    // files the proxy didn't write survive the purge
+    writeFileSync(join(dir, "entries", "package.json"), "{}");
+    const purge: any = await (await handler(new Request("http://proxy.local/cache", { method: "DELETE" }))).json();
+    expect(purge.purged).toBe(2);
+    expect(readdirSync(join(dir, "entries"))).toEqual(["package.json"]);
+    expect((await send(handler, { temperature: 0 })).headers.get("x-proxy-cache")).toBe("miss");
+  });
+});
+
+describe("usage accounting", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-usage-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = (state.lastBody = await req.json());
+        if (body.stream) {
+          const chunks = [
+            { id: "c1", model: body.model, choices: [{ index: 0, delta: { content: "Hello" }, finish_reason: "stop" }] },
+            { id: "c1", model: body.model, choices: [], usage: { prompt_tokens: 11, completion_tokens: 2, total_tokens: 13 } },
+          ];
+          return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n", {
+            headers: { "content-type": "text/event-stream" },
+          });
+        }
+        if (body.model === "openai-gpt-5-mini") return json({ error: { message: "bad" } }, 400);
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "12345678" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    const file = join(dir, "usage.json");
+    writeFileSync(file, JSON.stringify({ usage: { dbPath: join(dir, "usage.sqlite") } }));
+    reloadProxyConfig(file);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  test("records reported and estimated usage and aggregates it on /stats", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    const send = (model: string, stream: boolean) =>
+      handler(
+        new Request("http://proxy.local/v1/chat/completions", {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-proxy-client": "alice" },
+          body: JSON.stringify({ model, stream, messages: [{ role: "user", content: "hi" }] }),
+        }),
+      );
+
+    const streamed = await (await send("anthropic-claude-haiku-4.5", true)).text();
+    expect(state.lastBody.stream_options).toEqual({ include_usage: true });
+    expect(streamed).not.toContain("prompt_tokens");
+
+    await (await send("anthropic-claude-haiku-4.5", false)).text();
+    await (await send("openai-gpt-5-mini", false)).text();
+
+    const out: any = await (await handler(new Request("http://proxy.local/stats?days=1"))).json();
+    const haiku = out.data.find((r: any) => r.model === "anthropic-claude-haiku-4.5");
+    expect(haiku).toMatchObject({ requests: 2, errors: 0, completion_tokens: 2 + 2, estimated_requests: 1 });
+    expect(haiku.prompt_tokens).toBeGreaterThan(11);
+    expect(out.data.find((r: any) => r.model === "openai-gpt-5-mini")).toMatchObject({
+      requests: 1,
+      errors: 1,
+      total_tokens: 0,
+    });
+  });
+});
+
+describe("costs and budgets", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-budget-"));
+  const storePath = join(dir, "clients.json");
+  const keys: Record<string, string> = {};
+
+  beforeAll(() => {
+    for (const label of ["bob", "carol"]) keys[label] = addClientKey(storePath, { label }).key;
+    keys.ops = addClientKey(storePath, { label: "ops", admin: true }).key;
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = (state.lastBody = await req.json());
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+          usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const configure = (name: string, budgets: any) => {
+    const file = join(dir, `${name}.json`);
+    writeFileSync(
+      file,
+      JSON.stringify({
+        usage: { dbPath: join(dir, `${name}.sqlite`) },
+        clients: { storePath },
+        pricing: { "anthropic-claude-opus-4.6": { inputPerMTok: 10, outputPerMTok: 40 } },
+        budgets,
+      }),
+    );
+    expect(reloadProxyConfig(file)).toBe(true);
+  };
+
+  const send = (handler: (req: Request) => Promise<Response>, client: string) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: `Bearer ${keys[client]}` },
+        body: JSON.stringify({ model: "anthropic-claude-opus-4.6", messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+  test("prices each request and rejects once a client's daily budget is spent", async () => {
+    configure("reject", { clients: { bob: { dailyUsd: 0.04 } } });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+
+    expect((await send(handler, "bob")).status).toBe(200);
+    const blocked = await send(handler, "bob");
+    expect(blocked.status).toBe(402);
+    const err: any = await blocked.json();
+    expect(err.error.code).toBe("budget_exceeded");
+    expect(err.error.message).toContain("client bob daily budget");
+    expect((await send(handler, "carol")).status).toBe(200);
+
+    const stats: any = await (
+      await handler(new Request("http://proxy.local/stats?days=1", { headers: { authorization: `Bearer ${keys.ops}` } }))
+    ).json();
+    const opus = stats.data.find((r: any) => r.model === "anthropic-claude-opus-4.6");
+    expect(opus.cost_usd).toBe(0.1);
+  });
+
+  test("downgrades to the configured cheaper model instead when asked to", async () => {
+    configure("downgrade", {
+      global: { monthlyUsd: 0.01 },
+      action: "downgrade",
+      downgrade: { "anthropic-claude-opus-4.6": "anthropic-claude-haiku-4.5" },
+    });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+
+    await send(handler, "bob");
+    expect(state.lastBody.model).toBe("anthropic-claude-opus-4.6");
+    const res = await send(handler, "bob");
+    expect(res.status).toBe(200);
+    expect(state.lastBody.model).toBe("anthropic-claude-haiku-4.5");
+    expect(res.headers.get("x-served-model")).toBe("anthropic-claude-haiku-4.5");
+  });
+});
+
+describe("prometheus metrics", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let calls = 0;
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json();
+        // the first attempt is throttled so the retry is counted
+        if (calls++ === 0) {
+          return new Response("slow down", { status: 429, headers: { "retry-after": "0" } });
+        }
+        if (body.stream) {
+          return new Response(
+            [
+              `data: ${JSON.stringify({ model: body.model, choices: [{ index: 0, delta: { role: "assistant", content: "OK" } }] })}`,
+              `data: ${JSON.stringify({ model: body.model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }], usage: { prompt_tokens: 7, completion_tokens: 2 } })}`,
+              "data: [DONE]",
+              "",
+            ].join("\n\n"),
+            { headers: { "content-type": "text/event-stream" } },
+          );
+        }
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+          usage: { prompt_tokens: 11, completion_tokens: 3, total_tokens: 14 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  const metricValue = (text: string, series: string): number => {
+    const line = text.split("\n").find((l) => l.startsWith(`${series} `));
+    return line ? Number(line.slice(series.length + 1)) : 0;
+  };
+
+  test("exposes request, retry, normalization, token and latency metrics", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const scrape = async () => {
+      const res = await handler(new Request("http://proxy.local/metrics"));
+      expect(res.headers.get("content-type")).toContain("text/plain");
+      return res.text();
+    };
+    const before = await scrape();
+
+    const res = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "metrics-test-model",
+          messages: [
+            { role: "user", content: "run it" },
+            {
+              role: "assistant",
+              content: "",
+              tool_calls: [{ id: "call_1", type: "function", function: { name: "run", arguments: "{}" } }],
+            },
+          ],
+        }),
+      }),
+    );
+    expect(res.status).toBe(200);
+
+    const streamed = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          model: "metrics-test-model",
+          stream: true,
+          messages: [{ role: "user", content: "hi" }],
+        }),
+      }),
+    );
+    const reader = streamed.body!.getReader();
+    await reader.read();
+    const during = await scrape();
+    expect(metricValue(during, "do_proxy_inflight_streams")).toBe(metricValue(before, "do_proxy_inflight_streams") + 1);
+    while (!(await reader.read()).done) {}
+
+    const after = await scrape();
+    const delta = (series: string) => metricValue(after, series) - metricValue(before, series);
+    expect(
+      delta('do_proxy_requests_total{model="metrics-test-model",route="/v1/chat/completions",status="200"}'),
+    ).toBe(2);
+    expect(delta('do_proxy_upstream_retries_total{reason="429"}')).toBe(1);
+    expect(delta('do_proxy_normalizations_total{kind="synthetic_tool_result"}')).toBe(1);
+    expect(delta('do_proxy_tokens_total{model="metrics-test-model",type="prompt"}')).toBe(18);
+    expect(delta('do_proxy_tokens_total{model="metrics-test-model",type="completion"}')).toBe(5);
+    expect(delta("do_proxy_inflight_streams")).toBe(0);
+    expect(
+      metricValue(
+        after,
+        'do_proxy_request_duration_seconds_count{model="metrics-test-model",route="/v1/chat/completions"}',
+      ),
+    ).toBe(2);
+    expect(after).toContain('do_proxy_request_duration_seconds_bucket{model="metrics-test-model",route="/v1/chat/completions",le="+Inf"} 2');
+    expect(after).toContain("# TYPE do_proxy_time_to_first_token_seconds histogram");
+  });
+});
+
+describe("structured logging", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let upstreamRequestId: string | null = null;
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-logging-"));
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        upstreamRequestId = req.headers.get("x-request-id");
+        const body: any = await req.json();
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+    const file = join(dir, "json.json");
+    writeFileSync(file, JSON.stringify({ logging: { level: "info", format: "json" } }));
+    expect(reloadProxyConfig(file)).toBe(true);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  // Captures what the logger writes to stdout/stderr while `fn` runs
+  const captureLogs = async (fn: () => Promise<unknown>): Promise<any[]> => {
+    const lines: string[] = [];
+    const stdout = process.stdout.write;
+    const stderr = process.stderr.write;
+    const capture = (chunk: any) => {
+      lines.push(...String(chunk).split("\n").filter(Boolean));
+      return true;
+    };
+    process.stdout.write = capture as any;
+    process.stderr.write = capture as any;
+    try {
+      await fn();
+    } finally {
+      process.stdout.write = stdout;
+      process.stderr.write = stderr;
+    }
+    return lines.map((l) => JSON.parse(l));
+  };
+
+  const chat = (headers: Record<string, string> = {}) =>
+    new Request("http://proxy.local/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify({
+        model: "anthropic-claude-4.5-sonnet",
+        messages: [
+          { role: "user", content: "run it" },
+          {
+            role: "assistant",
+            content: "",
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "run", arguments: "{}" } }],
+          },
+        ],
+      }),
+    });
+
+  test("tags every line of a request with its ID and returns and forwards it", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    let res: Response | null = null;
+    const logs = await captureLogs(async () => {
+      res = await handler(chat());
+    });
+
+    const requestId = res!.headers.get("x-request-id");
+    expect(requestId).toMatch(/^req_[0-9a-f]{16}$/);
+    expect(upstreamRequestId).toBe(requestId);
+
+    expect(logs.length).toBeGreaterThan(2);
+    for (const line of logs) {
+      expect(line.requestId).toBe(requestId);
+      expect(typeof line.time).toBe("string");
+    }
+    // the normaliser logs through the same logger
+    expect(logs.some((l) => l.level === "warn" && l.msg.includes("Synthetic result for call_1"))).toBe(true);
+    expect(logs.find((l) => l.msg.startsWith("📥"))?.status).toBe(200);
+  });
+
+  test("keeps a client-supplied request ID", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    let res: Response | null = null;
+    const logs = await captureLogs(async () => {
+      res = await handler(chat({ "x-request-id": "trace-abc.123" }));
+    });
+    expect(res!.headers.get("x-request-id")).toBe("trace-abc.123");
+    expect(upstreamRequestId).toBe("trace-abc.123");
+    expect(logs.every((l) => l.requestId === "trace-abc.123")).toBe(true);
+  });
+
+  test("drops lines below the configured level", async () => {
+    const file = join(dir, "error.json");
+    writeFileSync(file, JSON.stringify({ logging: { level: "error", format: "json" } }));
+    expect(reloadProxyConfig(file)).toBe(true);
+
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    const logs = await captureLogs(() => handler(chat()));
+    expect(logs).toEqual([]);
+  });
+
+  test("rejects unknown levels and formats", () => {
+    const { errors } = validateProxyConfig({ logging: { level: "loud", format: "xml" } });
+    expect(errors).toEqual([
+      "logging.level: expected one of debug, info, warn, error",
+      'logging.format: expected "pretty" or "json"',
+    ]);
+  });
+});
+
+describe("debug capture", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-capture-"));
+  const captureDir = join(dir, "captures");
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json();
+        if (body.messages.some((m: any) => String(m.content).includes("fail"))) {
+          return new Response(JSON.stringify({ error: { message: "messages: bad tool pairing" } }), {
+            status: 400,
+            headers: { "content-type": "application/json", "x-upstream-trace": "trace-1" },
+          });
+        }
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const configure = (debugCapture: any) => {
+    const file = join(dir, "config.json");
+    writeFileSync(file, JSON.stringify({ debugCapture: { dir: captureDir, ...debugCapture } }));
+    expect(reloadProxyConfig(file)).toBe(true);
+  };
+
+  const send = (handler: (req: Request) => Promise<Response>, content: string) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: "Bearer local-client-secret" },
+        body: JSON.stringify({ model: "anthropic-claude-4.5-sonnet", messages: [{ role: "user", content }] }),
+      }),
+    );
+
+  const captures = () =>
+    readdirSync(captureDir)
+      .filter((f) => /-\d{3}\.json$/.test(f))
+      .sort()
+      .map((f) => join(captureDir, f));
+
+  test("writes one redacted, private file per failed exchange", async () => {
+    configure({ maxFiles: 10 });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "dop_v1_" + "a".repeat(64) });
+
+    const secret = "sk-ant-REDACTED";
+    const res = await send(handler, `please fail, my key is ${secret}`);
+    expect(res.status).toBe(400);
+    const requestId = res.headers.get("x-request-id");
+
+    const [file] = captures();
+    expect(file).toContain(`${requestId}-400.json`);
+    expect(statSync(file!).mode & 0o777).toBe(0o600);
+
+    const text = readFileSync(file!, "utf8");
+    expect(text).not.toContain(secret);
+    expect(text).not.toContain("local-client-secret");
+    const capture = JSON.parse(text);
+    expect(capture.requestId).toBe(requestId);
+    expect(capture.request.headers.authorization).toBe("[REDACTED]");
+    expect(capture.request.body.messages[0].content).toBe("please fail, my key is [REDACTED]");
+    expect(capture.upstreamRequest.model).toBe("anthropic-claude-4.5-sonnet");
+    expect(capture.response.status).toBe(400);
+    expect(capture.response.headers["x-upstream-trace"]).toBe("trace-1");
+    expect(capture.response.body.error.message).toBe("messages: bad tool pairing");
+
+    // successes are not captured unless asked for
+    expect((await send(handler, "hello")).status).toBe(200);
+    expect(captures().length).toBe(1);
+  });
+
+  test("keeps only the newest files and can capture successes", async () => {
+    configure({ maxFiles: 2, successes: true, redactPatterns: ["internal-[0-9]+"] });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    // someone else's file in a shared directory
+    writeFileSync(join(captureDir, "package.json"), "{}");
+
+    await send(handler, "fail 1");
+    await Bun.sleep(5);
+    await send(handler, "fail 2");
+    await Bun.sleep(5);
+    const ok = await send(handler, "hello internal-42");
+    expect(ok.status).toBe(200);
+
+    const files = captures();
+    expect(files.length).toBe(2);
+    const last = JSON.parse(readFileSync(files[1]!, "utf8"));
+    expect(last.response.status).toBe(200);
+    expect(last.response.body.choices[0].message.content).toBe("OK");
+    expect(last.request.body.messages[0].content).toBe("hello [REDACTED]");
+    expect(readdirSync(captureDir)).toContain("package.json");
+  });
+
+  test("validates the capture settings", () => {
+    const { errors } = validateProxyConfig({
+      debugCapture: { fileMode: 600, maxFiles: 0, redactPatterns: ["("] },
+    });
+    expect(errors).toEqual([
+      "debugCapture.maxFiles: expected an integer >= 1, got 0",
+      'debugCapture.fileMode: expected an octal string like "0600"',
+      expect.stringContaining("debugCapture.redactPatterns[0]: invalid pattern"),
+    ]);
+  });
+});
+
+describe("request replay", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState = { lastBody: null };
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = (state.lastBody = await req.json());
+        const error = validateToolOrderingOpenAIStyle(body);
+        if (error) return json({ error: { message: error } }, 400);
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    upstream?.stop();
+  });
+
+  // Shaped like a debug capture file
+  const capture = {
+    requestId: "req_1",
+    path: "/v1/chat/completions",
+    request: {
+      headers: {},
+      body: {
+        model: "anthropic-claude-4.5-sonnet",
+        seed: 7,
+        messages: [
+          { role: "user", content: "list files" },
+          {
+            role: "assistant",
+            content: "",
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "ls", arguments: "{}" } }],
+          },
+          { role: "user", content: "thanks" },
+        ],
+      },
+    },
+    upstreamRequest: {},
+    response: { status: 400, headers: {}, body: null },
+  };
+
+  test("re-normalises a capture and diffs it against the original", async () => {
+    const result = await replayCapture(capture);
+
+    expect(result.response).toBeNull();
+    expect(result.before.messages.length).toBe(3);
+    expect(validateToolOrderingOpenAIStyle(result.after)).toBeNull();
+    expect(result.after.seed).toBeUndefined();
+    expect(result.diff).toContain("- seed: 7");
+    expect(result.diff).toContain('+ [2] tool (call_1) "(tool was not executed or result was lost)"');
+    expect(result.diff[result.diff.length - 1]).toBe("  … 1 unchanged message(s)");
+  });
+
+  test("sends the normalised body to a stand-in upstream", async () => {
+    const result = await replayCapture(capture, { send: true, upstreamUrl });
+    expect(result.response?.status).toBe(200);
+    expect(state.lastBody.messages.map((m: any) => m.role)).toEqual(["user", "assistant", "tool", "assistant", "user"]);
+  });
+
+  test("replays an aliased request against the model that served it", async () => {
+    const aliased = {
+      ...capture,
+      request: { ...capture.request, body: { ...capture.request.body, model: "claude-haiku-latest" } },
+      upstreamRequest: { model: "anthropic-claude-haiku-4.5" },
+    };
+    const result = await replayCapture(aliased, { send: true, upstreamUrl });
+    expect(result.after.model).toBe("anthropic-claude-haiku-4.5");
+    expect(state.lastBody.model).toBe("anthropic-claude-haiku-4.5");
+  });
+
+  test("replays a slice of the conversation for bisecting", async () => {
+    const result = await replayCapture(capture.request.body, { messages: [0, 1] });
+    expect(result.before.messages.length).toBe(1);
+    expect(result.diff).toEqual(["- seed: 7", "+ max_tokens: 8192", "  … 1 unchanged message(s)"]);
+  });
+});
+
+describe("cassettes", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  let upstreamCalls = 0;
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-cassettes-"));
+  const cassetteDir = join(dir, "tapes");
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        upstreamCalls++;
+        if (new URL(req.url).pathname === "/v1/models") {
+          return json({ object: "list", data: [{ id: "openai-gpt-oss-120b" }, { id: "zz-live-only-model" }] });
+        }
+        const body: any = await req.json();
+        const chunk = (delta: any, extra: any = {}) =>
+          `data: ${JSON.stringify({ id: "c1", model: body.model, choices: [{ index: 0, delta, ...extra }] })}\n\n`;
+        const encoder = new TextEncoder();
+        return new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(encoder.encode(chunk({ role: "assistant", content: "Hel" })));
+              await Bun.sleep(150);
+              controller.enqueue(encoder.encode(chunk({ content: "lo" }, { finish_reason: "stop" })));
+              controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+              controller.close();
+            },
+          }),
+          { headers: { "content-type": "text/event-stream" } },
+        );
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const configure = (cassettes: any, extra: any = {}) => {
+    const file = join(dir, "config.json");
+    writeFileSync(file, JSON.stringify({ cassettes: { dir: cassetteDir, ...cassettes }, ...extra }));
+    expect(reloadProxyConfig(file)).toBe(true);
+  };
+
+  const chat = (content: string, model = "openai-gpt-oss-120b") =>
+    new Request("http://proxy.local/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ model, stream: true, messages: [{ role: "user", content }] }),
+    });
+
+  const streamedText = async (res: Response) => {
+    const text = await res.text();
+    return text
+      .split("\n")
+      .filter((l) => l.startsWith("data: {"))
+      .map((l) => JSON.parse(l.slice(6)).choices?.[0]?.delta?.content ?? "")
+      .join("");
+  };
+
+  test("records an exchange with its chunk timing and replays it offline", async () => {
+    configure({ mode: "record" });
+    const recorder = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    expect(await streamedText(await recorder(chat("hi")))).toBe("Hello");
+
+    const [file] = readdirSync(cassetteDir);
+    const cassette = JSON.parse(readFileSync(join(cassetteDir, file!), "utf8"));
+    expect(cassette.request.model).toBe("openai-gpt-oss-120b");
+    expect(cassette.response.status).toBe(200);
+    expect(cassette.response.chunks.length).toBeGreaterThanOrEqual(2);
+    expect(Math.max(...cassette.response.chunks.map((c: any) => c.delayMs))).toBeGreaterThanOrEqual(100);
+
+    configure({ mode: "replay" });
+    const callsBefore = upstreamCalls;
+    // nothing listens here: replay never touches the network
+    const offline = createProxyHandler({ inferenceUrl: "http://127.0.0.1:9", apiKey: "test", heartbeatIntervalMs: 0 });
+    const startedAt = performance.now();
+    const res = await offline(chat("hi"));
+    expect(res.status).toBe(200);
+    expect(await streamedText(res)).toBe("Hello");
+    expect(performance.now() - startedAt).toBeGreaterThanOrEqual(100);
+    expect(upstreamCalls).toBe(callsBefore);
+  });
+
+  test("redacts secrets from what it records", async () => {
+    configure({ mode: "record" });
+    const apiKey = "dop_v1_" + "b".repeat(64);
+    const recorder = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey, heartbeatIntervalMs: 0 });
+    const secret = "sk-ant-REDACTED";
+    expect(await streamedText(await recorder(chat(`my keys are ${secret} and ${apiKey}`)))).toBe("Hello");
+
+    const tapes = readdirSync(cassetteDir).map((f) => readFileSync(join(cassetteDir, f), "utf8"));
+    const tape = tapes.find((t) => t.includes("my keys are"));
+    expect(tape).toContain("my keys are [REDACTED] and [REDACTED]");
+    expect(tapes.some((t) => t.includes(secret) || t.includes(apiKey))).toBe(false);
+  });
+
+  test("replays the model list, so aliases resolve offline", async () => {
+    const aliasRules = [{ alias: "live-latest", target: "zz-live-*" }];
+    configure({ mode: "record" }, { aliasRules });
+    const recorder = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test", heartbeatIntervalMs: 0 });
+    expect(await streamedText(await recorder(chat("alias", "live-latest")))).toBe("Hello");
+
+    configure({ mode: "replay", replayTiming: false }, { aliasRules });
+    const callsBefore = upstreamCalls;
+    const offline = createProxyHandler({ inferenceUrl: "http://127.0.0.1:9", apiKey: "test", heartbeatIntervalMs: 0 });
+    const res = await offline(chat("alias", "live-latest"));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("x-served-model")).toBe("zz-live-only-model");
+    expect(await streamedText(res)).toBe("Hello");
+
+    const models: any = await (await offline(new Request("http://proxy.local/v1/models"))).json();
+    expect(models.data.map((m: any) => m.id)).toContain("zz-live-only-model");
+    expect(upstreamCalls).toBe(callsBefore);
+  });
+
+  test("reports requests no cassette matches", async () => {
+    configure({ mode: "replay", replayTiming: false });
+    const offline = createProxyHandler({ inferenceUrl: "http://127.0.0.1:9", apiKey: "test", heartbeatIntervalMs: 0 });
+    const res = await offline(chat("something else"));
+    expect(res.status).toBe(502);
+    const err: any = await res.json();
+    expect(err.error.code).toBe("cassette_not_found");
+    expect(err.error.message).toContain(`No cassette in ${cassetteDir} matches`);
+    expect(err.error.message).toContain("model=openai-gpt-oss-120b");
+  });
+
+  test("matches on the configured fields only", async () => {
+    configure({ mode: "replay", replayTiming: false, match: ["path", "model"] });
+    const offline = createProxyHandler({ inferenceUrl: "http://127.0.0.1:9", apiKey: "test", heartbeatIntervalMs: 0 });
+    expect(await streamedText(await offline(chat("something else")))).toBe("Hello");
+
+    const { errors } = validateProxyConfig({ cassettes: { mode: "rewind", match: ["headers"] } });
+    expect(errors).toEqual([
+      "cassettes.mode: expected one of off, record, replay",
+      "cassettes.match: expected a non-empty list of method, path, model, stream, messages, body",
+    ]);
+  });
+});
+
+describe("mock upstream", () => {
+  let mock: ReturnType<typeof Bun.serve> | null = null;
+  let mockUrl = "";
+
+  beforeAll(() => {
+    mock = Bun.serve({
+      port: 0,
+      fetch: createMockUpstream({
+        script: [{ type: "error", status: 429, retryAfter: 0 }, { type: "text", text: "Scripted reply" }],
+      }),
+    });
+    mockUrl = `http://localhost:${mock.port}`;
+  });
+
+  afterAll(() => {
+    mock?.stop(true);
+  });
+
+  const continuePayload = {
+    model: "anthropic-claude-4.5-sonnet",
+    messages: [
+      { role: "system", content: "" },
+      { role: "user", content: "read a.ts" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "read_file", arguments: "{}" } }],
+      },
+      { role: "tool", tool_call_id: "call_9", content: "stale output" },
+      { role: "user", content: "" },
+    ],
+  };
+
+  const post = (url: string, body: any) =>
+    fetch(url, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
+
+  test("enforces DO's strictness rules like the real upstream", async () => {
+    expect(validateDoStrictness(continuePayload)).toBe("messages.0: all messages must have non-empty content");
+    expect(validateDoStrictness({ ...continuePayload, messages: continuePayload.messages.slice(1, 3) })).toBe(
+      "messages.1.content: assistant content must be a string",
+    );
+    expect(
+      validateDoStrictness({
+        model: "m",
+        messages: [
+          { role: "user", content: "hi" },
+          { role: "assistant", content: "...", tool_calls: [{ id: "call_1" }] },
+          { role: "user", content: "next" },
+        ],
+      }),
+    ).toBe("messages.1: tool_use ids were found without tool_result blocks immediately after: call_1");
+
+    const raw = await post(`${mockUrl}/v1/chat/completions`, continuePayload);
+    expect(raw.status).toBe(400);
+  });
+
+  test("accepts what the proxy sends and replays its script, retries included", async () => {
+    const handler = createProxyHandler({ inferenceUrl: mockUrl, apiKey: "test" });
+    const res = await handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(continuePayload),
+      }),
+    );
+    expect(res.status).toBe(200);
+    const body: any = await res.json();
+    expect(body.choices[0].message.content).toBe("Scripted reply");
+
+    // script used up: echo
+    const echo: any = await (
+      await post(`${mockUrl}/v1/chat/completions`, {
+        model: "openai-gpt-5.2",
+        messages: [{ role: "user", content: "ping" }],
+      })
+    ).json();
+    expect(echo.choices[0].message.content).toBe("Echo: ping");
+  });
+
+  test("streams tool calls and injects failures on request", async () => {
+    const stream = await post(`${mockUrl}/v1/chat/completions`, {
+      model: "openai-gpt-5.2",
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: "user", content: 'open it [mock: tool read_file {"path":"a.ts"}]' }],
+    });
+    const events = (await stream.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("data: {"))
+      .map((e) => JSON.parse(e.slice(6)));
+    const toolDelta = events.find((e) => e.choices[0]?.delta?.tool_calls)?.choices[0].delta.tool_calls[0];
+    expect(toolDelta.function).toEqual({ name: "read_file", arguments: '{"path":"a.ts"}' });
+    expect(events.find((e) => e.choices[0]?.finish_reason)?.choices[0].finish_reason).toBe("tool_calls");
+    expect(events[events.length - 1].usage.prompt_tokens).toBeGreaterThan(0);
+
+    const failed = await post(`${mockUrl}/v1/chat/completions`, {
+      model: "openai-gpt-5.2",
+      messages: [{ role: "user", content: "[mock: 500]" }],
+    });
+    expect(failed.status).toBe(500);
+
+    const models: any = await (await fetch(`${mockUrl}/v1/models`)).json();
+    expect(models.data.map((m: any) => m.id)).toContain("anthropic-claude-4.5-sonnet");
+  });
+
+  test("hangs on a timeout step until the caller gives up", async () => {
+    const started = performance.now();
+    const res = await fetch(`${mockUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ model: "openai-gpt-5.2", messages: [{ role: "user", content: "[mock: timeout]" }] }),
+      signal: AbortSignal.timeout(200),
+    }).catch((e) => e);
+    expect(res).toBeInstanceOf(Error);
+    expect(performance.now() - started).toBeGreaterThanOrEqual(150);
+  });
+
+  test("validates scripted steps in the config file", () => {
+    const valid = validateProxyConfig({ mockUpstream: { script: [{ type: "text", text: "hi" }], chunkDelayMs: 0 } });
+    expect(valid.settings?.mockUpstream).toEqual({ script: [{ type: "text", text: "hi" }], chunkDelayMs: 0 });
+
+    const { errors } = validateProxyConfig({
+      mockUpstream: {
+        script: [
+          { type: "text", text: "hi" },
+          { type: "error", status: 200 },
+          { type: "dance" },
+          { type: "text", text: "hi", delay: 5 },
+          { type: "tool_call", name: "Read", args: {} },
+        ],
+      },
+    });
+    expect(errors).toEqual([
+      "mockUpstream.script[1].status: expected an integer >= 400, got 200",
+      "mockUpstream.script[2]: expected { type: echo | text | tool_call | error | timeout }",
+      "mockUpstream.script[3].delay: unknown key (expected one of type, text)",
+      "mockUpstream.script[4].args: unknown key (expected one of type, name, arguments)",
+    ]);
+  });
+});
+
+describe("client authentication", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const state: UpstreamState & { auth: string | null } = { lastBody: null, auth: null };
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-clients-"));
+  const storePath = join(dir, "clients.json");
+  let aliceKey = "";
+  let bobKey = "";
+  let adminKey = "";
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        state.auth = req.headers.get("authorization");
+        if (new URL(req.url).pathname === "/v1/models") {
+          return json({ object: "list", data: [{ id: "anthropic-claude-haiku-4.5" }, { id: "openai-gpt-5" }] });
+        }
+        const body: any = (state.lastBody = await req.json());
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+          usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+
+    aliceKey = addClientKey(storePath, { label: "alice", upstreamKey: "dop_v1_alice", models: ["anthropic-claude-*"] }).key;
+    bobKey = addClientKey(storePath, { label: "bob" }).key;
+    adminKey = addClientKey(storePath, { label: "ops", admin: true }).key;
+    const file = join(dir, "clients-config.json");
+    writeFileSync(file, JSON.stringify({ clients: { storePath }, usage: { dbPath: join(dir, "usage.sqlite") } }));
+    expect(reloadProxyConfig(file)).toBe(true);
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const chat = (handler: (req: Request) => Promise<Response>, key: string | null, model = "anthropic-claude-haiku-4.5") =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...(key ? { authorization: `Bearer ${key}` } : {}) },
+        body: JSON.stringify({ model, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+
+  test("stores only a hash of each key, readable by the owner alone", () => {
+    const stored = readFileSync(storePath, "utf8");
+    expect(stored).not.toContain(aliceKey);
+    expect(aliceKey).toStartWith("sk-proxy-");
+    expect(statSync(storePath).mode & 0o777).toBe(0o600);
+    expect(() => addClientKey(storePath, { label: "bob" })).toThrow("already exists");
+  });
+
+  test("rejects missing and unknown keys with an OpenAI-style 401", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "pool-key" });
+
+    const missing = await chat(handler, null);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+    const missingErr: any = await missing.json();
+    expect(missingErr.error).toMatchObject({ type: "invalid_request_error", code: null });
+    expect(missingErr.error.message).toContain("didn't provide an API key");
+
+    const unknown = await chat(handler, "sk-proxy-nope-nope-1234");
+    expect(unknown.status).toBe(401);
+    const unknownErr: any = await unknown.json();
+    expect(unknownErr.error.code).toBe("invalid_api_key");
+    expect(unknownErr.error.message).toContain("…1234");
+    expect(unknownErr.error.message).not.toContain("sk-proxy-nope");
+
+    const anthropic = await handler(
+      new Request("http://proxy.local/v1/messages", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-api-key": "wrong" },
+        body: JSON.stringify({ model: "anthropic-claude-haiku-4.5", max_tokens: 10, messages: [{ role: "user", content: "hi" }] }),
+      }),
+    );
+    expect(anthropic.status).toBe(401);
+    expect(((await anthropic.json()) as any).type).toBe("error");
+
+    expect((await handler(new Request("http://proxy.local/"))).status).toBe(200);
+  });
+
+  test("sends each client's upstream key and enforces its model allowlist", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "pool-key" });
+
+    expect((await chat(handler, aliceKey)).status).toBe(200);
+    expect(state.auth).toBe("Bearer dop_v1_alice");
+
+    const denied = await chat(handler, aliceKey, "openai-gpt-5");
+    expect(denied.status).toBe(403);
+    const err: any = await denied.json();
+    expect(err.error).toMatchObject({ code: "model_not_allowed", param: "model" });
+
+    const models: any = await (
+      await handler(new Request("http://proxy.local/v1/models", { headers: { authorization: `Bearer ${aliceKey}` } }))
+    ).json();
+    expect(models.data.map((m: any) => m.id)).toEqual(["anthropic-claude-haiku-4.5"]);
+
+    expect((await chat(handler, bobKey, "openai-gpt-5")).status).toBe(200);
+    expect(state.auth).toBe("Bearer pool-key");
+  });
+
+  test("records usage under the client's label", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "pool-key" });
+    await (await chat(handler, bobKey)).text();
+
+    const stats: any = await (
+      await handler(new Request("http://proxy.local/stats?days=1&client=bob", { headers: { "x-api-key": bobKey } }))
+    ).json();
+    expect(stats.data.find((r: any) => r.model === "anthropic-claude-haiku-4.5")).toMatchObject({ requests: 1 });
+  });
+
+  test("rejects invalid model patterns when adding and when loading keys", async () => {
+    expect(() => addClientKey(storePath, { label: "typo", models: ["/gpt-[/"] })).toThrow("invalid model pattern /gpt-[/");
+
+    const store = JSON.parse(readFileSync(storePath, "utf8"));
+    store.keys.push({
+      id: "ck_edited",
+      label: "edited",
+      keyHash: createHash("sha256").update("sk-proxy-hand-edited").digest("hex"),
+      upstreamKey: null,
+      models: ["/gpt-[/"],
+      admin: false,
+      createdAt: new Date().toISOString(),
+    });
+    writeFileSync(storePath, JSON.stringify(store));
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "pool-key" });
+    const res = await chat(handler, "sk-proxy-hand-edited");
+    expect(res.status).toBe(403);
+    expect(((await res.json()) as any).error.code).toBe("model_not_allowed");
+  });
+
+  test("keeps shared state and other clients' usage to admin keys", async () => {
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "pool-key" });
+    const call = (path: string, key: string, method = "GET") =>
+      handler(new Request(`http://proxy.local${path}`, { method, headers: { authorization: `Bearer ${key}` } }));
+
+    for (const [path, method] of [
+      ["/cache", "DELETE"],
+      ["/debug/keys", "GET"],
+      ["/debug/aliases", "GET"],
+      ["/stats?days=1", "GET"],
+      ["/stats?days=1&client=alice", "GET"],
+    ] as const) {
+      const res = await call(path, bobKey, method);
+      expect(res.status).toBe(403);
+      expect(((await res.json()) as any).error.code).toBe("admin_required");
+    }
+
+    expect((await call("/debug/keys", adminKey)).status).toBe(200);
+    expect((await call("/stats?days=1&client=alice", adminKey)).status).toBe(200);
+    expect((await call("/cache", adminKey, "DELETE")).status).toBe(200);
+  });
+});
+
+describe("rate limits and concurrency", () => {
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let upstreamUrl = "";
+  const arrivals: string[] = [];
+  let hold: Promise<void> = Promise.resolve();
+  const dir = mkdtempSync(join(tmpdir(), "do-proxy-limits-"));
+  const storePath = join(dir, "clients.json");
+  const keys: Record<string, string> = {};
+
+  beforeAll(() => {
+    for (const label of ["alice", "bob"]) keys[label] = addClientKey(storePath, { label }).key;
+    upstream = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const body: any = await req.json();
+        arrivals.push(body.messages.at(-1).content);
+        await hold;
+        return json({
+          model: body.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "OK" } }],
+          usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+        });
+      },
+    });
+    upstreamUrl = `http://localhost:${upstream.port}`;
+  });
+
+  afterAll(() => {
+    const reset = join(dir, "reset.json");
+    writeFileSync(reset, "{}");
+    reloadProxyConfig(reset);
+    upstream?.stop();
+  });
+
+  const configure = (name: string, rateLimits: any, clients: any = { storePath }) => {
+    const file = join(dir, `${name}.json`);
+    writeFileSync(file, JSON.stringify({ usage: { enabled: false }, clients, rateLimits }));
+    expect(reloadProxyConfig(file)).toBe(true);
+  };
+
+  const send = (
+    handler: (req: Request) => Promise<Response>,
+    client: string,
+    content: string,
+    headers: Record<string, string> = {},
+  ) =>
+    handler(
+      new Request("http://proxy.local/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(keys[client] ? { authorization: `Bearer ${keys[client]}` } : { "x-proxy-client": client }),
+          ...headers,
+        },
+        body: JSON.stringify({ model: "anthropic-claude-haiku-4.5", messages: [{ role: "user", content }] }),
+      }),
+    );
+
+  test("rejects a client over its requests per minute with retry-after", async () => {
+    configure("rpm", { clients: { "*": { requestsPerMinute: 1 } }, queueTimeoutMs: 0 });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+
+    expect((await send(handler, "alice", "one")).status).toBe(200);
+    const limited = await send(handler, "alice", "two");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThanOrEqual(59);
+    const err: any = await limited.json();
+    expect(err.error).toMatchObject({ type: "requests", code: "rate_limit_exceeded" });
+    expect(err.error.message).toContain("client alice");
+    // each client has its own bucket
+    expect((await send(handler, "bob", "three")).status).toBe(200);
+  });
+
+  test("puts callers without a client key in one shared bucket, whatever they call themselves", async () => {
+    configure("unkeyed", { clients: { "*": { requestsPerMinute: 1 }, mallory: { requestsPerMinute: 100 } }, queueTimeoutMs: 0 }, {
+      storePath: join(dir, "none.json"),
+    });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+
+    expect((await send(handler, "mallory", "one")).status).toBe(200);
+    const renamed = await send(handler, "mallory-2", "two");
+    expect(renamed.status).toBe(429);
+    expect(((await renamed.json()) as any).error.message).toContain("client *");
+    expect((await send(handler, "mallory", "three")).status).toBe(429);
+  });
+
+  test("queues past maxConcurrent and lets interactive chat go first", async () => {
+    configure("queue", { models: { "anthropic-claude-haiku-4.5": { maxConcurrent: 1 } } });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    arrivals.length = 0;
+    let open = () => {};
+    hold = new Promise((resolve) => (open = resolve));
+
+    const first = send(handler, "alice", "first");
+    while (arrivals.length === 0) await Bun.sleep(5);
+    const apply = send(handler, "alice", "apply", { "x-proxy-priority": "background" });
+    await Bun.sleep(20);
+    const chat = send(handler, "bob", "chat");
+    await Bun.sleep(20);
+    expect(arrivals).toEqual(["first"]);
+
+    open();
+    const statuses = (await Promise.all([first, apply, chat])).map((r) => r.status);
+    expect(statuses).toEqual([200, 200, 200]);
+    expect(arrivals).toEqual(["first", "chat", "apply"]);
+  });
+
+  test("lets interactive chat take refilled tokens before background work", async () => {
+    // 200 tokens a second; a message of n characters is estimated at ~n/4
+    // tokens. Unreserved, the smaller background request would refill first.
+    configure("tokens", { models: { "anthropic-claude-haiku-4.5": { tokensPerMinute: 12_000 } }, queueTimeoutMs: 5000 });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    arrivals.length = 0;
+    let open = () => {};
+    hold = new Promise((resolve) => (open = resolve));
+
+    const big = send(handler, "alice", "x".repeat(47_600));
+    while (arrivals.length === 0) await Bun.sleep(5);
+    const apply = send(handler, "alice", "a".repeat(800), { "x-proxy-priority": "background" });
+    await Bun.sleep(20);
+    const chat = send(handler, "bob", "c".repeat(1600));
+
+    while (arrivals.length < 3) await Bun.sleep(20);
+    open();
+    expect((await Promise.all([big, apply, chat])).map((r) => r.status)).toEqual([200, 200, 200]);
+    expect(arrivals.map((a) => a[0])).toEqual(["x", "c", "a"]);
+  });
+
+  test("gives up on a queued request after queueTimeoutMs", async () => {
+    configure("timeout", { clients: { alice: { maxConcurrent: 1 } }, queueTimeoutMs: 50 });
+    const handler = createProxyHandler({ inferenceUrl: upstreamUrl, apiKey: "test" });
+    let open = () => {};
+    hold = new Promise((resolve) => (open = resolve));
+
+    const first = send(handler, "alice", "first");
+    const queued = await send(handler, "alice", "second");
+    expect(queued.status).toBe(429);
+    expect(queued.headers.get("retry-after")).toBe("1");
+    expect(((await queued.json()) as any).error.message).toContain("No free slot within 50ms");
+
+    open();
+    expect((await first).status).toBe(200);
+    expect((await send(handler, "alice", "third")).status).toBe(200);
+  });
+
+  test("validates limits in the config file", () => {
+    const { errors } = validateProxyConfig({
+      rateLimits: { clients: { "*": { requestsPerMinute: 0, burst: 3 } }, queueTimeoutMs: -1 },
+    });
+    expect(errors).toEqual([
+      "rateLimits.clients.*.burst: unknown key (expected one of requestsPerMinute, tokensPerMinute, maxConcurrent)",
+      "rateLimits.clients.*.requestsPerMinute: expected an integer >= 1, got 0",
+      "rateLimits.queueTimeoutMs: expected an integer >= 0, got -1",
+    ]);
+  });
+});